@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { weatherTool, executeWeatherTool, WeatherToolParams } from '@/lib/weatherTools';
+import { weatherChatTool } from '@/lib/weatherTools';
+import { createChatCompletion, isLLMConfigured, sanitizeConversation } from '@/lib/llmClient';
+import { normalizeUnitSystem, describeUnitsForPrompt } from '@/lib/units';
+import { ToolRegistry } from '@/lib/toolRegistry';
 
 // Optimized chat API using OpenAI Tool Calling
 // Reduces from 3 API calls to 1
 
+const tools = new ToolRegistry({ get_weather: weatherChatTool });
+
 export async function POST(req: NextRequest) {
-  const { messages, language = 'en' } = await req.json();
+  const body = await req.json();
+  const { language = 'en', units: requestedUnits } = body;
+  const units = normalizeUnitSystem(requestedUnits);
+  // Only role and text go to the model, whatever else the client sent along
+  const messages = sanitizeConversation(body.messages);
   
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
+  if (!isLLMConfigured()) {
     return NextResponse.json({ error: 'OpenAI API key not found' }, { status: 500 });
   }
   
@@ -18,18 +26,11 @@ export async function POST(req: NextRequest) {
   
   try {
     // Single OpenAI call with tool calling
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a helpful weather assistant that provides weather information with fashion and travel recommendations. 
+    const message = await createChatCompletion({
+      messages: [
+        {
+          role: 'system',
+          content: `You are a helpful weather assistant that provides weather information with fashion and travel recommendations. 
 
 You have access to a weather tool that can get current weather, forecasts, and historical weather data for any city worldwide.
 
@@ -40,51 +41,35 @@ When users ask about weather:
 4. Suggest activities and travel advice
 5. Be conversational and helpful
 
+${describeUnitsForPrompt(units)}
+
 Respond in ${language === 'ja' ? 'Japanese' : 'English'}.
 
 For follow-up questions like "tomorrow?" or "how about yesterday?", remember the previous location context from the conversation.`
-          },
-          ...messages
-        ],
-        tools: [weatherTool],
-        tool_choice: 'auto',
-        temperature: 0.7
-      })
+        },
+        ...messages
+      ],
+      tools: tools.definitions,
+      tool_choice: 'auto',
+      temperature: 0.7
     });
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const completion = await response.json();
-    const message = completion.choices[0].message;
-
     // Check if OpenAI wants to call the weather tool
     if (message.tool_calls && message.tool_calls.length > 0) {
       console.log('🛠️ OpenAI requested tool call:', message.tool_calls[0].function.name);
       
       const toolCall = message.tool_calls[0];
-      const toolArgs: WeatherToolParams = JSON.parse(toolCall.function.arguments);
-      
-      console.log('📋 Tool arguments:', toolArgs);
       
       try {
-        // Execute the weather tool
-        const weatherResult = await executeWeatherTool(toolArgs);
+        // Execute the requested tool; unknown tools and invalid arguments are rejected
+        const { result: weatherResult } = await tools.execute(toolCall, { units, language });
         
         // Send the tool result back to OpenAI for final formatting
-        const finalResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-3.5-turbo',
-            messages: [
-              {
-                role: 'system',
-                content: `You are a helpful weather assistant. Format the weather data into a comprehensive response with fashion and travel recommendations.
+        const finalMessageResponse = await createChatCompletion({
+          messages: [
+            {
+              role: 'system',
+              content: `You are a helpful weather assistant. Format the weather data into a comprehensive response with fashion and travel recommendations.
 
 FORMATTING GUIDELINES:
 - Start with a clear weather summary
@@ -96,26 +81,22 @@ FORMATTING GUIDELINES:
 - If historical data: use past tense
 - If forecast data: mention it's a prediction
 
+${describeUnitsForPrompt(units)}
+
 Respond in ${language === 'ja' ? 'Japanese' : 'English'}.`
-              },
-              ...messages,
-              message, // Include the assistant's tool call message
-              {
-                role: 'tool',
-                tool_call_id: toolCall.id,
-                content: JSON.stringify(weatherResult)
-              }
-            ],
-            temperature: 0.7
-          })
+            },
+            ...messages,
+            message, // Include the assistant's tool call message
+            {
+              role: 'tool',
+              tool_call_id: toolCall.id,
+              content: JSON.stringify(weatherResult)
+            }
+          ],
+          temperature: 0.7
         });
 
-        if (!finalResponse.ok) {
-          throw new Error(`OpenAI final response error: ${finalResponse.status}`);
-        }
-
-        const finalCompletion = await finalResponse.json();
-        const finalMessage = finalCompletion.choices[0].message.content;
+        const finalMessage = finalMessageResponse.content;
 
         console.log('✅ Optimized weather response generated');
         
@@ -129,9 +110,7 @@ Respond in ${language === 'ja' ? 'Japanese' : 'English'}.`
         console.error('❌ Tool execution error:', toolError);
         
         // Return error message to user
-        const errorMessage = language === 'ja' 
-          ? `申し訳ございませんが、${toolArgs.location}の天気情報を取得できませんでした。別の都市名をお試しください。`
-          : `Sorry, I couldn't get weather information for ${toolArgs.location}. Please try a different city name.`;
+        const { message: errorMessage } = tools.describeError(toolCall.function.name, toolError, language);
           
         return NextResponse.json({
           response: errorMessage,
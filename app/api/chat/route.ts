@@ -1,55 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { weatherTool, executeWeatherTool, WeatherToolParams } from '@/lib/weatherTools';
-
-
-
-
-
-export async function POST(req: NextRequest) {
-  const { messages, language = 'en' } = await req.json();
-
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    return NextResponse.json({ error: 'OpenAI API key not found' }, { status: 500 });
-  }
-
-  const lastMessage = messages[messages.length - 1];
-  console.log('💬 Optimized chat API called with:', lastMessage?.content);
-  console.log('🌐 Language:', language);
-  console.log('📚 Total messages:', messages.length);
-
-  if (lastMessage && lastMessage.role === 'user') {
-    // Let OpenAI decide if it needs to use weather tools - no pre-filtering
-    // This allows for natural follow-up questions like "tomorrow?" after discussing a city
-
-    try {
-      console.log('🚀 Starting optimized weather workflow with tool calling...');
-
-      // Single OpenAI call with tool calling
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-            content: `You are a helpful weather assistant that provides weather information with fashion and travel recommendations. 
+import type { WeatherToolResponse } from '@/lib/weatherTools';
+import { formatTripPlanForPrompt } from '@/lib/tripPlanner';
+import { chatToolRegistry, ChatToolResult } from '@/lib/chatTools';
+import { createChatStreamResponse } from '@/lib/chatStream';
+import { createChatCompletion, streamChatCompletionMessage, isLLMConfigured, sanitizeConversation } from '@/lib/llmClient';
+import { runToolLoop } from '@/lib/toolLoop';
+import { sessionStore, SESSION_COOKIE, buildSessionCookie, getSessionContextSummary } from '@/lib/sessionContext';
+import { resolveContext, formatResolutionForPrompt, ContextResolution } from '@/lib/contextResolver';
+import type { WeatherContext } from '@/lib/contextManager';
+import { recommendOutfit, formatOutfitForPrompt, OutfitRecommendation } from '@/lib/outfitRecommendation';
+import { formatAlertsForPrompt } from '@/lib/weatherAlerts';
+import { normalizeUnitSystem, describeUnitsForPrompt, UnitSystem, UNIT_LABELS } from '@/lib/units';
+import { AmbiguousLocationError, GeocodeHints } from '@/lib/geocoding';
+
+// System prompt for the first step, where the model picks tools for the question
+function buildToolSystemPrompt(context: WeatherContext, resolution: ContextResolution, units: UnitSystem, language: string): string {
+  return `You are a helpful weather assistant that provides weather information with fashion and travel recommendations. 
 
 IMPORTANT: Today's date is ${new Date().toISOString().split('T')[0]} (${new Date().getFullYear()}). Always use current year dates unless explicitly specified otherwise.
 
-You have access to a weather tool that can get current weather, forecasts, and historical weather data for any city worldwide.
+You have access to a weather tool that can get current weather, forecasts, and historical weather data for any city worldwide, an air quality tool for pollution and pollen, a sun times tool for sunrise, sunset and golden hour, a trip planner for multi-city itineraries, and a history comparison tool for how unusual a day is.
 
 When users ask about weather:
-1. Use the get_weather tool to fetch weather data
-2. For dates without years, ALWAYS assume the current year (${new Date().getFullYear()})
-3. Provide comprehensive weather information
-4. Include fashion recommendations based on the weather
-5. Suggest activities and travel advice
-6. Be conversational and helpful
+1. Use the get_weather tool to fetch weather data; also call get_air_quality for the same city and date when the question is about outdoor activities, exercise, travel, health, pollution or allergies. For sunrise, sunset, daylight or golden-hour questions (e.g. photo walks) use get_sun_times; weather results already include "sun" for their first day
+2. For itineraries ("Tokyo Mon-Wed, Kyoto Thu-Sat") or packing questions for a trip, make ONE plan_trip call with every leg in order instead of several get_weather calls
+3. For "is today unusually hot?", "warmer than usual?" or record questions, use get_weather_anomaly, which compares the date with the same date in previous years
+4. For dates without years, ALWAYS assume the current year (${new Date().getFullYear()})
+5. Provide comprehensive weather information
+6. Include fashion recommendations based on the weather
+7. Suggest activities and travel advice
+8. Be conversational and helpful
 
 Date handling rules:
 - "today" = current weather
@@ -57,140 +37,290 @@ Date handling rules:
 - "yesterday" = historical data for previous day
 - "January 15" = January 15, ${new Date().getFullYear()} (current year)
 - "12-25" = December 25, ${new Date().getFullYear()} (current year)
+- "this weekend", "next 5 days" = ONE get_weather call per city with startDate/endDate (or days), not one call per day
+- "at 6pm", "this evening", "for my evening walk" = pass time (HH:MM, 24-hour) or hourRange to get hourly data
+- Dates more than 16 days ahead ("Paris in late December") = call get_weather with the date anyway; it returns typical weather (dateType "climate")
 
-Respond in ${language === 'ja' ? 'Japanese' : 'English'}.
-
-For follow-up questions like "tomorrow?" or "how about yesterday?", remember the previous location context from the conversation.`},
-            ...messages
-          ],
-          tools: [weatherTool],
-          tool_choice: 'auto',
-          temperature: 0.7
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
+${describeUnitsForPrompt(units)}
 
-      const completion = await response.json();
-      const message = completion.choices[0].message;
-
-      // Check if OpenAI wants to call weather tools
-      if (message.tool_calls && message.tool_calls.length > 0) {
-        console.log(`🛠️ OpenAI requested ${message.tool_calls.length} tool call(s)`);
-
-        try {
-          // Execute all tool calls in parallel for better performance
-          const toolResults = await Promise.all(
-            message.tool_calls.map(async (toolCall) => {
-              console.log('🔧 Executing tool:', toolCall.function.name);
-              const toolArgs: WeatherToolParams = JSON.parse(toolCall.function.arguments);
-              console.log('📋 Tool arguments:', toolArgs);
-              
-              const result = await executeWeatherTool(toolArgs);
-              return {
-                tool_call_id: toolCall.id,
-                result
-              };
-            })
-          );
-
-          console.log(`✅ Executed ${toolResults.length} tool calls successfully`);
-
-          // Send all tool results back to OpenAI for final formatting
-          const toolMessages = toolResults.map(({ tool_call_id, result }) => ({
-            role: 'tool' as const,
-            tool_call_id,
-            content: JSON.stringify(result)
-          }));
-
-          const finalResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${openaiApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'gpt-3.5-turbo',
-              messages: [
-                {
-                  role: 'system',
-                  content: `You are a helpful weather assistant. Format the weather data into a comprehensive response with fashion and travel recommendations.
+Respond in ${language === 'ja' ? 'Japanese' : 'English'}.
 
-FORMATTING GUIDELINES:
+For follow-up questions like "tomorrow?" or "how about yesterday?", remember the previous location context from the conversation.
+
+SESSION CONTEXT (use it when the user does not name a city or date):
+${getSessionContextSummary(context)}
+
+${formatResolutionForPrompt(resolution)}
+Use the resolved location and date unless the conversation clearly says otherwise.`;
+}
+
+interface AnswerPromptData {
+  toolResults: ChatToolResult[];
+  failedCalls: number;
+  outfits: OutfitRecommendation[];
+  canCallTools: boolean; // False on the last step, when the model has to answer
+}
+
+// System prompt for the steps after tool calls, which write the answer from the results
+function buildAnswerSystemPrompt({ toolResults, failedCalls, outfits, canCallTools }: AnswerPromptData, units: UnitSystem, language: string): string {
+  const weatherResults = toolResults.flatMap(r => r.name === 'get_weather' ? [r.result] : []);
+  const airQualityResults = toolResults.flatMap(r => r.name === 'get_air_quality' ? [r.result] : []);
+  const sunTimesUsed = toolResults.some(r => r.name === 'get_sun_times');
+  const tripPlans = toolResults.flatMap(r => r.name === 'plan_trip' ? [r.result] : []);
+  const anomalyUsed = toolResults.some(r => r.name === 'get_weather_anomaly');
+  // Temperature differences are stated in the units of the data
+  const degrees = UNIT_LABELS[units].temperature;
+  const feelsLikeThreshold = units === 'imperial' ? 4 : 2;
+
+  // Severe conditions must come first in the answer
+  const alertLines = [
+    ...weatherResults.map(result => ({ city: result.city, alerts: result.alerts || [] })),
+    ...tripPlans.flatMap(trip => trip.legs.map(leg => ({ city: leg.city, alerts: leg.alerts })))
+  ]
+    .filter(({ alerts }) => alerts.length > 0)
+    .map(({ city, alerts }) => formatAlertsForPrompt(city, alerts, language))
+    .join('\n');
+  const alertsSection = alertLines
+    ? `WEATHER ALERTS (open the response with these, most severe first, before the weather summary, in a clear warning tone):\n${alertLines}\n\n`
+    : '';
+
+  return `You are a helpful weather assistant. Format the weather data into a comprehensive response with fashion and travel recommendations.
+
+${alertsSection}${canCallTools ? `FOLLOW-UP DATA: Today's date is ${new Date().toISOString().split('T')[0]}. If these results are not enough to answer well (e.g. rain today when the user is deciding about tomorrow, or a place that failed because of a misspelt name), call the tools again for what is missing instead of guessing. A call that failed with "Invalid arguments" lists what was wrong: call it again with corrected arguments. Otherwise write the answer now.
+
+` : ''}FORMATTING GUIDELINES:
+- If there are WEATHER ALERTS: lead with them before anything else, never bury them after the summary
 - For multiple cities: create clear comparisons and highlight differences
 - Start with a weather summary for each location
 - Include temperature, conditions, humidity, wind, and precipitation
-- Provide clothing recommendations based on the weather
+- Mention the feels-like temperature ("comfort.apparentTemperature") when it differs from the air temperature by ${feelsLikeThreshold}${degrees} or more, and explain why (heat index, wind chill, humidex, gusts)
+- Provide clothing recommendations using the OUTFIT RECOMMENDATIONS below (explain them, do not contradict them)
 - Suggest activities appropriate for the conditions
 - Give practical tips (umbrella, sunscreen, etc.)
 - Be conversational and helpful
-- If historical data: use past tense
+${failedCalls > 0 ? `- Some tool results only contain an "error": answer everything that did succeed, then pass on the result's "message" for what could not be fetched and suggest trying again or checking the spelling
+` : ''}- If historical data: use past tense
 - If forecast data: mention it's a prediction
+- If dateType is "climate": say clearly these are typical conditions averaged over past years ("climateYears"), not a forecast, and give the "rainChance". Daily entries with "rainChance" after "climateFrom" are also averages
 - For comparisons: highlight which city is warmer/cooler, wetter/drier, etc.
+- If a result has "daily" entries: give a short day-by-day overview with min/max temperatures, then an overall summary
+- If a result has "hourly" entries: answer for those specific hours in the city's local time (the "timezone" field), using the hourly precipitation probability, wind and conditions rather than the daily summary
+${airQualityResults.length > 0 ? `- For air quality results: state the US AQI and its "category", name the main pollutant (PM2.5, PM10, ozone), and combine it with the weather for advice: an N95/KN95 mask outdoors from "unhealthyForSensitive" (for children, older people and people with asthma) and for everyone from "unhealthy"; move exercise indoors or to the cleanest hours when it is poor. Mention pollen only when "pollen" is present and "pollenLevel" is moderate or higher
+` : ''}${sunTimesUsed ? `- For sun times results: give sunrise and sunset in the city's local time, and for photography suggest the golden hour window ("goldenHourMorning"/"goldenHourEvening") together with the expected cloud cover or rain. Explain "polar" day or night when present
+` : ''}${tripPlans.length > 0 ? `- For trip plans: go leg by leg in travel order with a short day-by-day weather line, then the clothing and activity plan, and finish with one combined packing list. Days with "source": "climate" are typical weather from past years, not a forecast - say so and mention "rainChance"
+` : ''}${anomalyUsed ? `- For history comparisons: answer the question directly with the numbers ("anomaly.temperatureMean" against the average of the "previousYears", e.g. "+${units === 'imperial' ? 7 : 4}${degrees} warmer than the 10-year mean"), use the "verdict", and mention the "rank" and the warmest or coldest year when it stands out
+` : ''}
+${outfits.length > 0 ? `OUTFIT RECOMMENDATIONS:
+${outfits.map(formatOutfitForPrompt).join('\n\n')}
+` : ''}${tripPlans.length > 0 ? `
+TRIP PLAN:
+${tripPlans.map(formatTripPlanForPrompt).join('\n\n')}
+` : ''}
+${describeUnitsForPrompt(units)}
+
+Respond in ${language === 'ja' ? 'Japanese' : 'English'}.`;
+}
+
+// Remember what was looked up so follow-ups like "and tomorrow?" resolve against it
+async function updateSessionFromResults(sessionId: string, results: WeatherToolResponse[]): Promise<void> {
+  if (results.length === 0) {
+    return;
+  }
+
+  for (const result of results) {
+    await sessionStore.updateLocation(sessionId, {
+      city: result.city,
+      country: result.country,
+      latitude: result.latitude,
+      longitude: result.longitude,
+      timezone: result.timezone,
+      lastUsed: new Date().toISOString()
+    });
+  }
+
+  const lastResult = results[results.length - 1];
+  // Climate normals are for future dates, follow-ups treat them like forecasts
+  await sessionStore.updateTemporal(sessionId, lastResult.dateType === 'climate' ? 'forecast' : lastResult.dateType, lastResult.targetDate);
+}
 
-Respond in ${language === 'ja' ? 'Japanese' : 'English'}.`
-                },
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+  const { language = 'en', units: requestedUnits } = body;
+  const units = normalizeUnitSystem(requestedUnits);
+  // Only role and text go to the model, whatever else the client sent along
+  const messages = sanitizeConversation(body.messages);
+
+  if (!isLLMConfigured()) {
+    return NextResponse.json({ error: 'OpenAI API key not found' }, { status: 500 });
+  }
+
+  const lastMessage = messages[messages.length - 1];
+  console.log('💬 Optimized chat API called with:', lastMessage?.content);
+  console.log('🌐 Language:', language);
+  console.log('📏 Units:', units);
+  console.log('📚 Total messages:', messages.length);
+
+  // Load the server-side session for this browser, or start a new one
+  const cookieSessionId = req.cookies.get(SESSION_COOKIE)?.value;
+  const session = (cookieSessionId ? await sessionStore.getSession(cookieSessionId) : null)
+    || await sessionStore.createSession();
+  const sessionId = session.sessionId;
+  // Behind a proxy the original scheme is in x-forwarded-proto
+  const overHttps = req.nextUrl.protocol === 'https:' || req.headers.get('x-forwarded-proto') === 'https';
+
+  if (lastMessage && lastMessage.role === 'user') {
+    // Let OpenAI decide if it needs to use weather tools - no pre-filtering
+    // This allows for natural follow-up questions like "tomorrow?" after discussing a city
+
+    // Resolve locations and relative dates against the session before asking the model
+    const resolution = resolveContext(lastMessage.content, session.context, { language });
+
+    const response = createChatStreamResponse(async (send) => {
+      try {
+        console.log('🚀 Starting weather tool loop...');
+
+        // Places seen earlier in the session win when a name is ambiguous ("Springfield" after "Springfield, IL")
+        const geocodeHints: GeocodeHints = { recentLocations: session.context.location.recent };
+
+        const toolResults: ChatToolResult[] = [];
+        let failedCalls = 0;
+        let outfits: OutfitRecommendation[] = [];
+        let answer = '';
+
+        const loop = await runToolLoop<ChatToolResult>({
+          complete: async (conversation, { step, final }) => {
+            // The first step decides which tools to call
+            if (step === 1) {
+              return createChatCompletion({
+                messages: [{ role: 'system', content: buildToolSystemPrompt(session.context, resolution, units, language) }, ...messages],
+                tools: chatToolRegistry.definitions,
+                tool_choice: 'auto',
+                temperature: 0.7
+              });
+            }
+
+            // Later steps write the answer from the results so far, or ask for more data.
+            // Text written before further tool calls is not part of the answer, so only the final step
+            // (which cannot call tools) streams live; other steps send their text once they make no calls
+            let stepText = '';
+            const message = await streamChatCompletionMessage({
+              messages: [
+                { role: 'system', content: buildAnswerSystemPrompt({ toolResults, failedCalls, outfits, canCallTools: !final }, units, language) },
                 ...messages,
-                message, // Include the assistant's tool call message
-                ...toolMessages // Include all tool results
+                ...conversation // Tool call messages and their results
               ],
+              tools: chatToolRegistry.definitions,
+              tool_choice: final ? 'none' : 'auto',
               temperature: 0.7
-            })
-          });
-
-          if (!finalResponse.ok) {
-            throw new Error(`OpenAI final response error: ${finalResponse.status}`);
+            }, delta => {
+              if (final) {
+                answer += delta;
+                send({ type: 'text', delta });
+              } else {
+                stepText += delta;
+              }
+            });
+
+            if (stepText && !message.tool_calls?.length) {
+              answer += stepText;
+              send({ type: 'text', delta: stepText });
+            }
+            return message;
+          },
+          execute: toolCall => chatToolRegistry.execute(toolCall, { units, language, geocodeHints }),
+          serialize: ({ result }) => JSON.stringify(result),
+          serializeError: (error, toolCall) => JSON.stringify(chatToolRegistry.describeError(toolCall.function.name, error, language)),
+          onToolResults: async (outcomes) => {
+            const results = outcomes.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+            const errors = outcomes.flatMap(outcome => outcome.status === 'rejected' ? [outcome.reason as unknown] : []);
+            toolResults.push(...results);
+            failedCalls += errors.length;
+
+            for (const error of errors) {
+              console.error('❌ Tool execution error:', error);
+            }
+
+            // Ask which place was meant; the client shows the candidates as chips
+            const ambiguity = errors.find((error): error is AmbiguousLocationError => error instanceof AmbiguousLocationError);
+            if (ambiguity) {
+              send({ type: 'disambiguation', query: ambiguity.query, candidates: ambiguity.candidates });
+              send({
+                type: 'text',
+                delta: language === 'ja'
+                  ? `「${ambiguity.query}」という地名は複数あります。どちらの場所ですか？`
+                  : `There is more than one place called "${ambiguity.query}". Which one did you mean?`
+              });
+              return true;
+            }
+
+            const newWeather = results.flatMap(r => r.name === 'get_weather' ? [r.result] : []);
+            await updateSessionFromResults(sessionId, newWeather);
+
+            // Structured data goes out before the answer streams; weather events carry every city so far
+            if (newWeather.length > 0) {
+              const weatherResults = toolResults.flatMap(r => r.name === 'get_weather' ? [r.result] : []);
+              // Rule-based outfits keep clothing advice consistent with the data
+              outfits = weatherResults.map(result => recommendOutfit(result, { language }));
+              send({ type: 'weather', weatherData: weatherResults, outfits, multiCity: weatherResults.length > 1 });
+            }
+            for (const result of results) {
+              if (result.name === 'plan_trip') {
+                send({ type: 'trip', trip: result.result });
+              }
+            }
           }
+        });
 
-          const finalCompletion = await finalResponse.json();
-          const finalMessage = finalCompletion.choices[0].message.content;
+        console.log(`✅ Tool loop finished after ${loop.steps.length} step(s), ${toolResults.length}/${loop.outcomes.length} tool calls succeeded`);
 
-          console.log('✅ Optimized weather response generated');
+        if (loop.stoppedEarly) {
+          send({ type: 'done', toolUsed: true, toolsUsed: 0, steps: loop.steps });
+          return;
+        }
 
-          return NextResponse.json({
-            response: finalMessage,
-            weatherData: toolResults.map(r => r.result),
-            toolsUsed: toolResults.length,
-            multiCity: toolResults.length > 1
-          });
+        if (loop.outcomes.length === 0) {
+          // No tool call needed, return direct response
+          console.log('💬 Direct response (no tool needed)');
 
-        } catch (toolError) {
-          console.error('❌ Tool execution error:', toolError);
+          send({ type: 'text', delta: loop.message.content || '' });
+          send({ type: 'done', toolUsed: false, toolsUsed: 0, steps: loop.steps });
+          return;
+        }
 
-          // Return error message to user
-          const errorMessage = language === 'ja'
+        // A model that kept asking for tools on the last step leaves no answer
+        if (!answer) {
+          answer = loop.message.content || (language === 'ja'
             ? `申し訳ございませんが、天気情報を取得できませんでした。別の都市名をお試しください。`
-            : `Sorry, I couldn't get weather information. Please try different city names.`;
-
-          return NextResponse.json({
-            response: errorMessage,
-            error: true
-          });
+            : `Sorry, I couldn't get weather information. Please try different city names.`);
+          send({ type: 'text', delta: answer });
         }
-      } else {
-        // No tool call needed, return direct response
-        console.log('💬 Direct response (no tool needed)');
 
-        return NextResponse.json({
-          response: message.content,
-          toolUsed: false
-        });
-      }
+        console.log('✅ Weather response streamed');
+
+        const weatherCount = toolResults.filter(r => r.name === 'get_weather').length;
+        await sessionStore.updateConversation(
+          sessionId,
+          lastMessage.content,
+          weatherCount > 1 ? 'comparison' : 'weather',
+          answer
+        );
+
+        send({ type: 'done', toolUsed: true, toolsUsed: toolResults.length, error: toolResults.length === 0 || undefined, steps: loop.steps });
 
-    } catch (error) {
-      console.error('❌ Optimized chat API error:', error);
+      } catch (error) {
+        console.error('❌ Optimized chat API error:', error);
 
-      const fallbackMessage = language === 'ja'
-        ? 'すみません、エラーが発生しました。もう一度お試しください。'
-        : 'Sorry, an error occurred. Please try again.';
+        const fallbackMessage = language === 'ja'
+          ? 'すみません、エラーが発生しました。もう一度お試しください。'
+          : 'Sorry, an error occurred. Please try again.';
 
-      return NextResponse.json({
-        response: fallbackMessage,
-        error: true
-      }, { status: 500 });
-    }
+        send({ type: 'text', delta: fallbackMessage });
+        send({ type: 'done', toolUsed: false, toolsUsed: 0, error: true });
+      }
+    });
+
+    response.headers.append('Set-Cookie', buildSessionCookie(sessionId, overHttps));
+    return response;
   }
 
   // If no valid message, return default response
@@ -198,8 +328,11 @@ Respond in ${language === 'ja' ? 'Japanese' : 'English'}.`
     ? 'こんにちは！天気や旅行、ファッションについて何でもお聞きください。'
     : 'Hello! Ask me anything about weather, travel, or fashion recommendations.';
 
-  return NextResponse.json({
-    response: defaultMessage,
-    toolUsed: false
+  const response = createChatStreamResponse(async (send) => {
+    send({ type: 'text', delta: defaultMessage });
+    send({ type: 'done', toolUsed: false, toolsUsed: 0 });
   });
-}
\ No newline at end of file
+
+  response.headers.append('Set-Cookie', buildSessionCookie(sessionId, overHttps));
+  return response;
+}
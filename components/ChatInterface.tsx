@@ -6,24 +6,32 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useVoiceInput } from '@/hooks/useVoiceInput';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { WeatherData } from '@/lib/weather';
-import { Mic, MicOff, Send, Zap } from 'lucide-react';
+import type { OutfitRecommendation } from '@/lib/outfitRecommendation';
+import type { ChatThreadMessage } from '@/lib/threadStore';
+import { readChatStream } from '@/lib/chatStream';
+import { contextManager } from '@/lib/contextManager';
+import { OutfitRecommendations } from '@/components/OutfitRecommendations';
+import { WeatherCard } from '@/components/WeatherCard';
+import { WeatherComparisonTable } from '@/components/WeatherComparisonTable';
+import { WeatherAlertBanner } from '@/components/WeatherAlertBanner';
+import { TripTimeline } from '@/components/TripTimeline';
+import { ThreadSidebar } from '@/components/ThreadSidebar';
+import { useChatThreads } from '@/hooks/useChatThreads';
+import { MapPin, Mic, MicOff, Send, Zap } from 'lucide-react';
 
-interface ChatInterfaceProps {
-  weatherData?: WeatherData;
-}
+type ChatMessage = ChatThreadMessage;
 
-export function ChatInterface({ weatherData }: ChatInterfaceProps) {
+export function ChatInterface() {
   const { language, t } = useLanguage();
   const [isLoadingWeather, setIsLoadingWeather] = useState(false);
-  const [currentWeatherData, setCurrentWeatherData] = useState<WeatherData | undefined>(weatherData);
   const [apiStats, setApiStats] = useState<{ calls: number; time: number } | null>(null);
 
   const [inputValue, setInputValue] = useState('');
-  const [messages, setMessages] = useState<Array<{ id: string; role: 'user' | 'assistant'; content: string }>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const { threads, activeThreadId, saveMessages, openThread, startNewThread, renameThread, deleteThread } = useChatThreads();
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
@@ -36,13 +44,12 @@ export function ChatInterface({ weatherData }: ChatInterfaceProps) {
     setInputValue(e.target.value);
   }, []);
 
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (inputValue.trim()) {
+  const sendMessage = useCallback(async (content: string) => {
+    if (content.trim()) {
       const userMessage = {
         id: Date.now().toString(),
         role: 'user' as const,
-        content: inputValue.trim()
+        content: content.trim()
       };
 
       setMessages(prev => [...prev, userMessage]);
@@ -57,34 +64,76 @@ export function ChatInterface({ weatherData }: ChatInterfaceProps) {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            messages: [...messages, userMessage],
-            language: language
+            // The server only needs the text of each turn, not the attached weather data
+            messages: [...messages, userMessage].map(({ role, content }) => ({ role, content })),
+            language: language,
+            units: contextManager.getPreferences().units
           }),
         });
 
-        const endTime = Date.now();
-        const responseTime = endTime - startTime;
+        if (response.ok && response.body) {
+          const assistantId = (Date.now() + 1).toString();
+          let hasAssistantMessage = false;
+          let weather: ChatMessage['weather'];
+          let outfits: OutfitRecommendation[] | undefined;
+          let trip: ChatMessage['trip'];
+          let disambiguation: ChatMessage['disambiguation'];
+          let assistantContent = '';
 
-        if (response.ok) {
-          const responseData = await response.json();
-
-          const assistantMessage = {
-            id: (Date.now() + 1).toString(),
-            role: 'assistant' as const,
-            content: responseData.response || responseData
+          // Later tool loop steps can send more data after the text has started; keep the cards current
+          const updateAttachments = () => {
+            if (!hasAssistantMessage) return;
+            const attachments = { weather, outfits, trip, disambiguation };
+            setMessages(prev => prev.map(message =>
+              message.id === assistantId ? { ...message, ...attachments } : message
+            ));
           };
 
-          setMessages(prev => [...prev, assistantMessage]);
-          
-          // Update API stats
-          const apiCalls = responseData.toolUsed ? 2 : 1; // Tool call = 2 OpenAI calls, direct = 1
-          setApiStats({ calls: apiCalls, time: responseTime });
-          
-          console.log('📊 API Stats:', { calls: apiCalls, time: responseTime, toolUsed: responseData.toolUsed });
-          
-          // Update weather data if provided
-          if (responseData.weatherData) {
-            setCurrentWeatherData(responseData.weatherData);
+          // Render the formatting pass as it streams in
+          for await (const event of readChatStream(response.body)) {
+            if (event.type === 'weather') {
+              // Weather data usually arrives before the text starts and is attached to the answer
+              weather = { weatherData: event.weatherData, multiCity: event.multiCity };
+              outfits = event.outfits;
+              updateAttachments();
+            } else if (event.type === 'trip') {
+              trip = event.trip;
+              updateAttachments();
+            } else if (event.type === 'disambiguation') {
+              disambiguation = { query: event.query, candidates: event.candidates };
+              updateAttachments();
+            } else if (event.type === 'text') {
+              assistantContent += event.delta;
+              if (!hasAssistantMessage) {
+                hasAssistantMessage = true;
+                setMessages(prev => [...prev, { id: assistantId, role: 'assistant' as const, content: event.delta, weather, outfits, trip, disambiguation }]);
+              } else {
+                setMessages(prev => prev.map(message =>
+                  message.id === assistantId
+                    ? { ...message, content: message.content + event.delta }
+                    : message
+                ));
+              }
+            } else if (event.type === 'done') {
+              const responseTime = Date.now() - startTime;
+
+              // Update API stats
+              const apiCalls = event.steps?.length ?? (event.toolUsed ? 2 : 1); // One OpenAI call per tool loop step
+              setApiStats({ calls: apiCalls, time: responseTime });
+
+              console.log('📊 API Stats:', { calls: apiCalls, time: responseTime, toolUsed: event.toolUsed, steps: event.steps });
+            } else if (event.type === 'error') {
+              console.error('Chat stream error:', event.message);
+            }
+          }
+
+          // Persist the finished exchange to the active thread
+          if (hasAssistantMessage) {
+            await saveMessages([
+              ...messages,
+              userMessage,
+              { id: assistantId, role: 'assistant', content: assistantContent, weather, outfits, trip, disambiguation }
+            ]);
           }
         }
       } catch (error) {
@@ -94,7 +143,37 @@ export function ChatInterface({ weatherData }: ChatInterfaceProps) {
         setInputValue('');
       }
     }
-  }, [inputValue, messages, language]);
+  }, [messages, language, saveMessages]);
+
+  const handleSubmit = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    sendMessage(inputValue);
+  }, [inputValue, sendMessage]);
+
+  // Ask the question again with the chosen place spelled out in full ("Springfield, Illinois, United States")
+  const handleChooseLocation = useCallback((query: string, label: string) => {
+    const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const index = question.toLowerCase().indexOf(query.toLowerCase());
+    sendMessage(index >= 0
+      ? question.slice(0, index) + label + question.slice(index + query.length)
+      : `${question} (${label})`);
+  }, [messages, sendMessage]);
+
+  const handleSelectThread = useCallback(async (threadId: string) => {
+    setMessages(await openThread(threadId));
+  }, [openThread]);
+
+  const handleNewThread = useCallback(() => {
+    startNewThread();
+    setMessages([]);
+  }, [startNewThread]);
+
+  const handleDeleteThread = useCallback(async (threadId: string) => {
+    await deleteThread(threadId);
+    if (threadId === activeThreadId) {
+      setMessages([]);
+    }
+  }, [deleteThread, activeThreadId]);
 
   const onVoiceResult = useCallback(async (transcript: string) => {
     console.log('Voice result received:', transcript);
@@ -155,52 +234,19 @@ export function ChatInterface({ weatherData }: ChatInterfaceProps) {
   };
 
   return (
-    <div className="max-w-5xl mx-auto p-4 space-y-6">
-      {/* Weather Card */}
-      {/* {currentWeatherData && (
-        <Card className="glass animate-float shadow-xl border-primary/20">
-          <CardHeader className="pb-4">
-            <CardTitle className="flex items-center gap-3 text-xl">
-              <div className="relative">
-                <MapPin className="w-6 h-6 text-primary" />
-                <div className="absolute -top-1 -right-1 w-3 h-3 bg-primary rounded-full animate-ping"></div>
-              </div>
-              {currentWeatherData.city}, {currentWeatherData.country}
-            </CardTitle>
-            <CardDescription className="text-base">
-              {t('currentWeather')}
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-              <div className="text-center group hover:scale-105 transition-transform">
-                <div className="text-3xl font-bold text-primary mb-1">{currentWeatherData.temperature}°C</div>
-                <div className="text-sm text-muted-foreground capitalize">{currentWeatherData.description}</div>
-              </div>
-              <div className="text-center group hover:scale-105 transition-transform">
-                <div className="text-xl font-semibold text-blue-500 mb-1">{currentWeatherData.humidity}%</div>
-                <div className="text-sm text-muted-foreground">{t('humidity')}</div>
-              </div>
-              <div className="text-center group hover:scale-105 transition-transform">
-                <div className="text-xl font-semibold text-green-500 mb-1">{currentWeatherData.windSpeed} m/s</div>
-                <div className="text-sm text-muted-foreground">{t('windSpeed')}</div>
-              </div>
-              <div className="text-center group hover:scale-105 transition-transform">
-                <div className="text-xl font-semibold text-purple-500 mb-1">{currentWeatherData.precipitation}mm</div>
-                <div className="text-sm text-muted-foreground">Precipitation</div>
-              </div>
-              <div className="text-center group hover:scale-105 transition-transform">
-                <div className="text-xl font-semibold text-orange-500 mb-1">{currentWeatherData.cloudCover}%</div>
-                <div className="text-sm text-muted-foreground">Cloud Cover</div>
-              </div>
-              <div className="text-center group hover:scale-105 transition-transform">
-                <div className="text-xl font-semibold text-red-500 mb-1">{currentWeatherData.uvIndex}</div>
-                <div className="text-sm text-muted-foreground">UV Index</div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      )} */}
+    <div className="max-w-7xl mx-auto p-4 grid gap-6 lg:grid-cols-[16rem_minmax(0,1fr)] items-start">
+      {/* Saved Threads */}
+      <aside className="lg:row-span-2 lg:sticky lg:top-20">
+        <ThreadSidebar
+          threads={threads}
+          activeThreadId={activeThreadId}
+          disabled={isLoading}
+          onSelect={handleSelectThread}
+          onNew={handleNewThread}
+          onRename={renameThread}
+          onDelete={handleDeleteThread}
+        />
+      </aside>
 
       {/* Chat Messages */}
       <Card className="glass shadow-xl border-secondary/20">
@@ -269,12 +315,38 @@ export function ChatInterface({ weatherData }: ChatInterfaceProps) {
                         </div>
                       )}
                     </div>
-                    <div className="whitespace-pre-wrap flex-1 leading-relaxed">{message.content}</div>
+                    <div className="flex-1 min-w-0">
+                      {message.weather && <WeatherAlertBanner weatherData={message.weather.weatherData} />}
+                      {message.weather && (message.weather.multiCity
+                        ? <WeatherComparisonTable weatherData={message.weather.weatherData} />
+                        : message.weather.weatherData.map(weather => (
+                          <WeatherCard key={`${weather.city}-${weather.targetDate || 'current'}`} weather={weather} />
+                        )))}
+                      {message.trip && <TripTimeline trip={message.trip} />}
+                      <div className="whitespace-pre-wrap leading-relaxed">{message.content}</div>
+                      {message.disambiguation && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {message.disambiguation.candidates.map(candidate => (
+                            <button
+                              key={`${candidate.latitude},${candidate.longitude}`}
+                              type="button"
+                              disabled={isLoading || index !== messages.length - 1}
+                              onClick={() => handleChooseLocation(message.disambiguation!.query, candidate.label)}
+                              className="flex items-center gap-1 px-3 py-1 bg-white/30 dark:bg-white/10 border border-white/20 dark:border-white/10 rounded-full text-sm font-medium hover:bg-primary/20 transition-colors disabled:opacity-50"
+                            >
+                              <MapPin className="w-3 h-3 text-primary" />
+                              {candidate.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {message.outfits && <OutfitRecommendations outfits={message.outfits} />}
+                    </div>
                   </div>
                 </div>
               </div>
             ))}
-            {isLoading && (
+            {isLoading && messages[messages.length - 1]?.role === 'user' && (
               <div className="flex justify-start animate-in slide-in-from-bottom-2 duration-300">
                 <div className="bg-white/20 dark:bg-white/10 backdrop-blur-sm border border-white/20 dark:border-white/10 shadow-lg rounded-2xl p-5">
                   <div className="flex items-center gap-3">
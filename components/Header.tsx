@@ -2,6 +2,7 @@
 
 import { ThemeToggle } from '@/components/ui/theme-toggle';
 import { LanguageToggle } from '@/components/ui/language-toggle';
+import { UnitsToggle } from '@/components/ui/units-toggle';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { Mic, Cloud } from 'lucide-react';
 
@@ -34,6 +35,7 @@ export function Header() {
             <span>{t('headerTagline')}</span>
           </div>
           <LanguageToggle />
+          <UnitsToggle />
           <ThemeToggle />
         </div>
       </div>
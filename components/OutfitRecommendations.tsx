@@ -0,0 +1,71 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { OutfitItem, OutfitRecommendation } from '@/lib/outfitRecommendation';
+import { formatTemperature } from '@/lib/units';
+
+interface OutfitRecommendationsProps {
+  outfits: OutfitRecommendation[];
+}
+
+function ItemChips({ items }: { items: OutfitItem[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map(item => (
+        <span
+          key={item.id}
+          className="px-3 py-1 bg-white/30 dark:bg-white/10 border border-white/20 dark:border-white/10 rounded-full text-xs font-medium"
+        >
+          {item.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Structured outfit advice shown under the assistant's answer
+export function OutfitRecommendations({ outfits }: OutfitRecommendationsProps) {
+  const { t } = useLanguage();
+
+  if (outfits.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-3">
+      {outfits.map(outfit => {
+        const layers = [outfit.layers.base, outfit.layers.mid, outfit.layers.outer]
+          .filter((item): item is OutfitItem => item !== null);
+
+        return (
+          <div
+            key={outfit.city}
+            className="rounded-xl border border-white/20 dark:border-white/10 bg-white/10 dark:bg-white/5 p-4 space-y-2 text-sm"
+          >
+            <div className="flex items-center justify-between font-semibold">
+              <span>{t('outfit.title')}{outfits.length > 1 ? ` · ${outfit.city}` : ''}</span>
+              <span className="text-xs text-muted-foreground">
+                {t('outfit.feelsLike')} {formatTemperature(outfit.conditions.feelsLike, outfit.units)}
+              </span>
+            </div>
+            <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-2 items-start">
+              <span className="text-muted-foreground">{t('outfit.layers')}</span>
+              <ItemChips items={layers} />
+              <span className="text-muted-foreground">{t('outfit.footwear')}</span>
+              <ItemChips items={[outfit.footwear]} />
+              {outfit.accessories.length > 0 && (
+                <>
+                  <span className="text-muted-foreground">{t('outfit.accessories')}</span>
+                  <ItemChips items={outfit.accessories} />
+                </>
+              )}
+            </div>
+            {outfit.notes.map(note => (
+              <p key={note} className="text-xs text-muted-foreground">💡 {note}</p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { ChatThreadSummary } from '@/lib/threadStore';
+import { Check, Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface ThreadSidebarProps {
+  threads: ChatThreadSummary[];
+  activeThreadId: string | null;
+  disabled?: boolean;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export function ThreadSidebar({ threads, activeThreadId, disabled, onSelect, onNew, onRename, onDelete }: ThreadSidebarProps) {
+  const { t } = useLanguage();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (thread: ChatThreadSummary) => {
+    setEditingId(thread.id);
+    setEditingTitle(thread.title);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId) {
+      onRename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (threadId: string) => {
+    if (window.confirm(t('threads.confirmDelete'))) {
+      onDelete(threadId);
+    }
+  };
+
+  return (
+    <Card className="glass shadow-xl border-secondary/20 h-fit">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          {t('threads.title')}
+          <Button variant="ghost" size="sm" onClick={onNew} disabled={disabled} className="h-8 px-2 gap-1">
+            <Plus className="h-4 w-4" />
+            <span className="text-xs">{t('threads.newThread')}</span>
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 max-h-[60vh] overflow-y-auto">
+        {threads.length === 0 && (
+          <p className="text-sm text-muted-foreground py-2">{t('threads.empty')}</p>
+        )}
+        {threads.map(thread => (
+          <div
+            key={thread.id}
+            className={`group rounded-lg px-3 py-2 transition-colors ${thread.id === activeThreadId
+              ? 'bg-primary/20 border border-primary/30'
+              : 'hover:bg-white/20 dark:hover:bg-white/10 border border-transparent'
+              }`}
+          >
+            {editingId === thread.id ? (
+              <form onSubmit={submitRename} className="flex items-center gap-1">
+                <Input
+                  value={editingTitle}
+                  onChange={e => setEditingTitle(e.target.value)}
+                  onBlur={submitRename}
+                  autoFocus
+                  className="h-8 text-sm"
+                />
+                <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+                  <Check className="h-4 w-4" />
+                </Button>
+              </form>
+            ) : (
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => onSelect(thread.id)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="text-sm font-medium truncate">{thread.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {thread.messageCount} {t('threads.messages')}
+                  </div>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => startRename(thread)}
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                  aria-label={t('threads.rename')}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(thread.id)}
+                  disabled={disabled}
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                  aria-label={t('threads.delete')}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WeatherIcon } from '@/components/WeatherIcon';
+import { UNIT_LABELS } from '@/lib/units';
+import type { TripPlan } from '@/lib/tripPlanner';
+import type { OutfitItem } from '@/lib/outfitRecommendation';
+import { Luggage, MapPin } from 'lucide-react';
+
+interface TripTimelineProps {
+  trip: TripPlan;
+}
+
+// Result of one plan_trip call: legs in travel order with their days, then the packing list
+export function TripTimeline({ trip }: TripTimelineProps) {
+  const { t } = useLanguage();
+  const labels = UNIT_LABELS[trip.units];
+
+  return (
+    <div className="mb-4 rounded-xl border border-white/20 dark:border-white/10 bg-white/10 dark:bg-white/5 p-4 space-y-4 text-sm">
+      <div className="font-semibold">{t('trip.title')}</div>
+
+      <ol className="relative border-l border-primary/30 ml-2 space-y-5">
+        {trip.legs.map(leg => (
+          <li key={`${leg.city}-${leg.startDate}`} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary" />
+            <div className="flex items-center gap-2 font-semibold">
+              <MapPin className="w-4 h-4 text-primary" />
+              {leg.city}, {leg.country}
+              <span className="text-xs font-normal text-muted-foreground">{leg.startDate} – {leg.endDate}</span>
+            </div>
+
+            <div className="flex gap-2 overflow-x-auto pb-1 mt-2">
+              {leg.days.map(day => (
+                <div
+                  key={day.date}
+                  className={`flex-shrink-0 rounded-lg px-3 py-2 text-center text-xs ${day.source === 'climate'
+                    ? 'border border-dashed border-white/30 dark:border-white/20'
+                    : 'bg-white/10 dark:bg-white/5'
+                    }`}
+                  title={day.packing.map(item => item.label).join(', ')}
+                >
+                  <div className="text-muted-foreground">{day.date.slice(5)}</div>
+                  <WeatherIcon code={day.weather.weatherCode} className="w-5 h-5 mx-auto my-1" />
+                  <div className="font-medium">
+                    {day.weather.temperatureMax}{labels.temperature} / {day.weather.temperatureMin}{labels.temperature}
+                  </div>
+                  {day.rainChance !== undefined && (
+                    <div className="text-blue-500">☔ {day.rainChance}%</div>
+                  )}
+                  {day.source === 'climate' && (
+                    <div className="text-muted-foreground">{t('trip.typical')}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-2 space-y-1">
+              <div>
+                <span className="text-muted-foreground">{t('trip.activities')}: </span>
+                {leg.activities.map(activity => activity.label).join(' · ')}
+              </div>
+              <div>
+                <span className="text-muted-foreground">{t('trip.wear')}: </span>
+                {[leg.outfit.layers.base, leg.outfit.layers.mid, leg.outfit.layers.outer]
+                  .filter((item): item is OutfitItem => item !== null)
+                  .map(item => item.label)
+                  .join(' + ')}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {trip.packingList.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-semibold">
+            <Luggage className="w-4 h-4 text-primary" />
+            {t('trip.packingList')}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {trip.packingList.map(item => (
+              <span
+                key={item.id}
+                className="px-3 py-1 bg-white/30 dark:bg-white/10 border border-white/20 dark:border-white/10 rounded-full text-xs font-medium"
+              >
+                {item.label} <span className="text-muted-foreground">×{item.days}{t('trip.days')}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
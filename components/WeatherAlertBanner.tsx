@@ -0,0 +1,48 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { AlertLevel } from '@/lib/weatherAlerts';
+import type { WeatherToolResponse } from '@/lib/weatherTools';
+import { AlertTriangle, Info, OctagonAlert } from 'lucide-react';
+
+interface WeatherAlertBannerProps {
+  weatherData: WeatherToolResponse[];
+}
+
+const LEVEL_STYLES: Record<AlertLevel, { className: string; icon: typeof Info }> = {
+  danger: { className: 'bg-red-500/15 border-red-500/40 text-red-700 dark:text-red-300', icon: OctagonAlert },
+  warning: { className: 'bg-orange-500/15 border-orange-500/40 text-orange-700 dark:text-orange-300', icon: AlertTriangle },
+  advisory: { className: 'bg-amber-500/10 border-amber-500/30 text-amber-700 dark:text-amber-300', icon: Info }
+};
+
+// Severe-condition warnings shown above the weather card
+export function WeatherAlertBanner({ weatherData }: WeatherAlertBannerProps) {
+  const { language, t } = useLanguage();
+  const alerts = weatherData.flatMap(weather => (weather.alerts || []).map(alert => ({ ...alert, city: weather.city })));
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 space-y-2" role="alert">
+      {alerts.map(alert => {
+        const { className, icon: Icon } = LEVEL_STYLES[alert.level];
+        return (
+          <div
+            key={`${alert.city}-${alert.type}`}
+            className={`flex items-start gap-3 rounded-xl border px-4 py-3 text-sm ${className}`}
+          >
+            <Icon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div>
+              <div className="font-semibold">
+                {t(`alerts.${alert.level}`)} · {alert.city}{alert.date ? ` · ${alert.date}` : ''}
+              </div>
+              <div>{alert.message[language]}</div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
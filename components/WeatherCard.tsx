@@ -0,0 +1,129 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WeatherIcon, getWeatherCondition } from '@/components/WeatherIcon';
+import { UNIT_LABELS } from '@/lib/units';
+import { formatDaylight } from '@/lib/astronomy';
+import type { WeatherToolResponse } from '@/lib/weatherTools';
+import { MapPin, Sunrise, Sunset } from 'lucide-react';
+
+interface WeatherCardProps {
+  weather: WeatherToolResponse;
+}
+
+// Date label for the card header, e.g. "Forecast · 2025-10-18 – 2025-10-20"
+export function formatWeatherDate(weather: WeatherToolResponse, t: (key: string) => string): string {
+  const label = t(`weatherCard.dateType.${weather.dateType}`);
+  if (!weather.targetDate) {
+    return label;
+  }
+  return weather.endDate && weather.endDate !== weather.targetDate
+    ? `${label} · ${weather.targetDate} – ${weather.endDate}`
+    : `${label} · ${weather.targetDate}`;
+}
+
+// Structured result of one get_weather call, shown with the assistant message that used it
+export function WeatherCard({ weather }: WeatherCardProps) {
+  const { t } = useLanguage();
+  const labels = UNIT_LABELS[weather.units || 'metric'];
+  const temperature = weather.temperatureMax !== undefined && weather.temperatureMin !== undefined
+    ? `${weather.temperatureMin}–${weather.temperatureMax}${labels.temperature}`
+    : `${weather.temperature}${labels.temperature}`;
+
+  const stats = [
+    { label: t('weatherCard.humidity'), value: `${weather.humidity}%`, className: 'text-blue-500' },
+    { label: t('weatherCard.wind'), value: `${weather.windSpeed} ${labels.windSpeed}`, className: 'text-green-500' },
+    { label: t('weatherCard.precipitation'), value: `${weather.precipitation} ${labels.precipitation}`, className: 'text-purple-500' },
+    { label: t('weatherCard.uvIndex'), value: `${weather.uvIndex}`, className: 'text-orange-500' }
+  ];
+
+  // Climate normals have a chance of rain instead of a precipitation amount
+  if (weather.rainChance !== undefined) {
+    stats[2] = { label: t('weatherCard.rainChance'), value: `${weather.rainChance}%`, className: 'text-purple-500' };
+  }
+
+  return (
+    <div className="mb-4 rounded-xl border border-white/20 dark:border-white/10 bg-white/10 dark:bg-white/5 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 font-semibold">
+            <MapPin className="w-4 h-4 text-primary" />
+            {weather.city}, {weather.country}
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">{formatWeatherDate(weather, t)}</div>
+          {weather.climateYears && weather.dateType === 'climate' && (
+            <div className="text-xs text-muted-foreground">
+              {t('weatherCard.climateNote')} {Math.min(...weather.climateYears)}–{Math.max(...weather.climateYears)}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <WeatherIcon code={weather.weatherCode} className="w-10 h-10" />
+          <div className="text-right">
+            <div className="text-2xl font-bold text-primary">{temperature}</div>
+            <div className="text-xs text-muted-foreground">
+              {t(`weatherCard.condition.${getWeatherCondition(weather.weatherCode)}`)}
+              {weather.comfort && ` · ${t('weatherCard.feelsLike')} ${Math.round(weather.comfort.apparentTemperature)}${labels.temperature}`}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+        {stats.map(stat => (
+          <div key={stat.label}>
+            <div className={`text-lg font-semibold ${stat.className}`}>{stat.value}</div>
+            <div className="text-xs text-muted-foreground">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {weather.sun && (
+        <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {weather.sun.polar ? (
+            <span>{t(`weatherCard.polar.${weather.sun.polar}`)}</span>
+          ) : (
+            <>
+              <span className="flex items-center gap-1">
+                <Sunrise className="w-4 h-4 text-amber-500" />
+                {t('weatherCard.sunrise')} {weather.sun.sunrise?.slice(11)}
+              </span>
+              <span className="flex items-center gap-1">
+                <Sunset className="w-4 h-4 text-orange-500" />
+                {t('weatherCard.sunset')} {weather.sun.sunset?.slice(11)}
+              </span>
+              <span>{t('weatherCard.daylight')} {formatDaylight(weather.sun.daylightMinutes)}</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {weather.daily && weather.daily.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {weather.daily.map(day => (
+            <div key={day.date} className="flex-shrink-0 rounded-lg bg-white/10 dark:bg-white/5 px-3 py-2 text-center text-xs">
+              <div className="text-muted-foreground">{day.date.slice(5)}</div>
+              <WeatherIcon code={day.weatherCode} className="w-5 h-5 mx-auto my-1" />
+              <div className="font-medium">{day.temperatureMax}° / {day.temperatureMin}°</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {weather.hourly && weather.hourly.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {weather.hourly.map(hour => (
+            <div key={hour.time} className="flex-shrink-0 rounded-lg bg-white/10 dark:bg-white/5 px-3 py-2 text-center text-xs">
+              <div className="text-muted-foreground">{hour.time.slice(11, 16)}</div>
+              <WeatherIcon code={hour.weatherCode} className="w-5 h-5 mx-auto my-1" />
+              <div className="font-medium">{hour.temperature}°</div>
+              {hour.precipitationProbability !== null && (
+                <div className="text-blue-500">{hour.precipitationProbability}%</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import { WeatherIcon, getWeatherCondition } from '@/components/WeatherIcon';
+import { formatWeatherDate } from '@/components/WeatherCard';
+import { UNIT_LABELS } from '@/lib/units';
+import type { WeatherToolResponse } from '@/lib/weatherTools';
+
+interface WeatherComparisonTableProps {
+  weatherData: WeatherToolResponse[];
+}
+
+// Side-by-side view for multi-city answers
+export function WeatherComparisonTable({ weatherData }: WeatherComparisonTableProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="mb-4 rounded-xl border border-white/20 dark:border-white/10 bg-white/10 dark:bg-white/5 p-4">
+      <div className="font-semibold mb-3">{t('weatherCard.comparisonTitle')}</div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b border-white/20 dark:border-white/10">
+              <th className="py-2 pr-3 font-medium">{t('weatherCard.city')}</th>
+              <th className="py-2 pr-3 font-medium">{t('weatherCard.conditions')}</th>
+              <th className="py-2 pr-3 font-medium">{t('weatherCard.temperature')}</th>
+              <th className="py-2 pr-3 font-medium">{t('weatherCard.humidity')}</th>
+              <th className="py-2 pr-3 font-medium">{t('weatherCard.wind')}</th>
+              <th className="py-2 pr-3 font-medium">{t('weatherCard.precipitation')}</th>
+              <th className="py-2 font-medium">{t('weatherCard.uvIndex')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {weatherData.map(weather => {
+              const labels = UNIT_LABELS[weather.units || 'metric'];
+              const temperature = weather.temperatureMax !== undefined && weather.temperatureMin !== undefined
+                ? `${weather.temperatureMin}–${weather.temperatureMax}${labels.temperature}`
+                : `${weather.temperature}${labels.temperature}`;
+
+              return (
+                <tr key={`${weather.city}-${weather.targetDate || 'current'}`} className="border-b border-white/10 last:border-0">
+                  <td className="py-2 pr-3">
+                    <div className="font-medium">{weather.city}</div>
+                    <div className="text-xs text-muted-foreground">{formatWeatherDate(weather, t)}</div>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-2">
+                      <WeatherIcon code={weather.weatherCode} className="w-5 h-5" />
+                      {t(`weatherCard.condition.${getWeatherCondition(weather.weatherCode)}`)}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-3 font-semibold text-primary">{temperature}</td>
+                  <td className="py-2 pr-3">{weather.humidity}%</td>
+                  <td className="py-2 pr-3">{weather.windSpeed} {labels.windSpeed}</td>
+                  <td className="py-2 pr-3">{weather.precipitation} {labels.precipitation}</td>
+                  <td className="py-2">{weather.uvIndex}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { Cloud, CloudDrizzle, CloudFog, CloudLightning, CloudRain, CloudSnow, CloudSun, HelpCircle, Sun } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+export type WeatherCondition =
+  | 'clear'
+  | 'mainlyClear'
+  | 'partlyCloudy'
+  | 'overcast'
+  | 'fog'
+  | 'drizzle'
+  | 'rain'
+  | 'snow'
+  | 'thunderstorm'
+  | 'unknown';
+
+// Group WMO weather codes into the conditions the UI distinguishes
+export function getWeatherCondition(code: number): WeatherCondition {
+  if (code === 0) return 'clear';
+  if (code === 1) return 'mainlyClear';
+  if (code === 2) return 'partlyCloudy';
+  if (code === 3) return 'overcast';
+  if (code === 45 || code === 48) return 'fog';
+  if (code >= 51 && code <= 57) return 'drizzle';
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return 'rain';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 95 && code <= 99) return 'thunderstorm';
+  return 'unknown';
+}
+
+const CONDITION_ICONS: Record<WeatherCondition, { icon: LucideIcon; className: string }> = {
+  clear: { icon: Sun, className: 'text-yellow-500' },
+  mainlyClear: { icon: Sun, className: 'text-yellow-400' },
+  partlyCloudy: { icon: CloudSun, className: 'text-yellow-500' },
+  overcast: { icon: Cloud, className: 'text-gray-400' },
+  fog: { icon: CloudFog, className: 'text-gray-400' },
+  drizzle: { icon: CloudDrizzle, className: 'text-blue-400' },
+  rain: { icon: CloudRain, className: 'text-blue-500' },
+  snow: { icon: CloudSnow, className: 'text-sky-300' },
+  thunderstorm: { icon: CloudLightning, className: 'text-purple-500' },
+  unknown: { icon: HelpCircle, className: 'text-muted-foreground' }
+};
+
+interface WeatherIconProps {
+  code: number;
+  className?: string;
+}
+
+export function WeatherIcon({ code, className = 'w-6 h-6' }: WeatherIconProps) {
+  const { icon: Icon, className: colorClassName } = CONDITION_ICONS[getWeatherCondition(code)];
+  return <Icon className={`${className} ${colorClassName}`} />;
+}
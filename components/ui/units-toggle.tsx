@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { contextManager } from '@/lib/contextManager';
+import type { UnitSystem } from '@/lib/units';
+import { Thermometer } from 'lucide-react';
+
+export function UnitsToggle() {
+  const [units, setUnits] = useState<UnitSystem>('metric');
+
+  // Stored preference is only readable on the client
+  useEffect(() => {
+    setUnits(contextManager.getPreferences().units);
+  }, []);
+
+  const toggleUnits = () => {
+    const nextUnits: UnitSystem = units === 'metric' ? 'imperial' : 'metric';
+    contextManager.updatePreferences({ units: nextUnits });
+    setUnits(nextUnits);
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={toggleUnits}
+      className="h-9 px-3 gap-2"
+    >
+      <Thermometer className="h-4 w-4" />
+      <span className="font-medium">
+        {units === 'metric' ? '°C' : '°F'}
+      </span>
+      <span className="text-xs text-muted-foreground">
+        {units === 'metric' ? '→ °F' : '→ °C'}
+      </span>
+    </Button>
+  );
+}
@@ -31,6 +31,70 @@ const translations = {
     currentWeather: '🌡️ Current Weather Information',
     humidity: '💧 Humidity',
     windSpeed: '💨 Wind Speed',
+    weatherCard: {
+      temperature: 'Temperature',
+      feelsLike: 'Feels like',
+      humidity: 'Humidity',
+      wind: 'Wind',
+      precipitation: 'Precipitation',
+      uvIndex: 'UV index',
+      city: 'City',
+      conditions: 'Conditions',
+      comparisonTitle: '📊 City comparison',
+      rainChance: 'Chance of rain',
+      climateNote: 'Average of',
+      sunrise: 'Sunrise',
+      sunset: 'Sunset',
+      daylight: 'Daylight',
+      polar: {
+        day: 'Midnight sun - the sun does not set',
+        night: 'Polar night - the sun does not rise'
+      },
+      dateType: {
+        current: 'Now',
+        forecast: 'Forecast',
+        historical: 'Past',
+        climate: 'Typical weather'
+      },
+      condition: {
+        clear: 'Clear',
+        mainlyClear: 'Mainly clear',
+        partlyCloudy: 'Partly cloudy',
+        overcast: 'Overcast',
+        fog: 'Fog',
+        drizzle: 'Drizzle',
+        rain: 'Rain',
+        snow: 'Snow',
+        thunderstorm: 'Thunderstorm',
+        unknown: 'Unknown'
+      }
+    },
+
+    // Trip planner
+    trip: {
+      title: '🧳 Trip plan',
+      typical: 'Typical',
+      activities: 'Activities',
+      wear: 'Wear',
+      packingList: 'Packing list',
+      days: 'd'
+    },
+
+    // Alerts
+    alerts: {
+      advisory: 'Advisory',
+      warning: 'Warning',
+      danger: 'Danger'
+    },
+
+    // Outfit
+    outfit: {
+      title: '👕 What to wear',
+      layers: 'Layers',
+      footwear: 'Footwear',
+      accessories: 'Bring',
+      feelsLike: 'Feels like'
+    },
 
     // Chat
     assistantTitle: 'Weather Assistant',
@@ -44,6 +108,17 @@ const translations = {
     },
     thinking: 'AI is thinking...',
 
+    // Threads
+    threads: {
+      title: '💬 Conversations',
+      newThread: 'New chat',
+      rename: 'Rename',
+      delete: 'Delete',
+      empty: 'No saved conversations yet',
+      confirmDelete: 'Delete this conversation?',
+      messages: 'messages'
+    },
+
     // Input
     inputPlaceholder: 'Type a message or use 🎤 for voice input...',
     listening: '🎤 Listening to your voice...',
@@ -71,6 +146,70 @@ const translations = {
     currentWeather: '🌡️ 現在の天気情報',
     humidity: '💧 湿度',
     windSpeed: '💨 風速',
+    weatherCard: {
+      temperature: '気温',
+      feelsLike: '体感',
+      humidity: '湿度',
+      wind: '風速',
+      precipitation: '降水量',
+      uvIndex: 'UV指数',
+      city: '都市',
+      conditions: '天気',
+      comparisonTitle: '📊 都市比較',
+      rainChance: '降水確率',
+      climateNote: '過去の平均:',
+      sunrise: '日の出',
+      sunset: '日の入り',
+      daylight: '昼の長さ',
+      polar: {
+        day: '白夜 - 太陽が沈みません',
+        night: '極夜 - 太陽が昇りません'
+      },
+      dateType: {
+        current: '現在',
+        forecast: '予報',
+        historical: '過去',
+        climate: '平年の傾向'
+      },
+      condition: {
+        clear: '快晴',
+        mainlyClear: '晴れ',
+        partlyCloudy: '晴れ時々曇り',
+        overcast: '曇り',
+        fog: '霧',
+        drizzle: '霧雨',
+        rain: '雨',
+        snow: '雪',
+        thunderstorm: '雷雨',
+        unknown: '不明'
+      }
+    },
+
+    // Trip planner
+    trip: {
+      title: '🧳 旅行プラン',
+      typical: '平年',
+      activities: 'おすすめ',
+      wear: '服装',
+      packingList: '持ち物リスト',
+      days: '日'
+    },
+
+    // Alerts
+    alerts: {
+      advisory: '注意報',
+      warning: '警報',
+      danger: '危険'
+    },
+
+    // Outfit
+    outfit: {
+      title: '👕 おすすめの服装',
+      layers: '重ね着',
+      footwear: '足元',
+      accessories: '持ち物',
+      feelsLike: '体感温度'
+    },
 
     // Chat
     assistantTitle: '天気アシスタント',
@@ -84,6 +223,17 @@ const translations = {
     },
     thinking: 'AIが考えています...',
 
+    // Threads
+    threads: {
+      title: '💬 会話履歴',
+      newThread: '新しいチャット',
+      rename: '名前を変更',
+      delete: '削除',
+      empty: '保存された会話はまだありません',
+      confirmDelete: 'この会話を削除しますか？',
+      messages: '件のメッセージ'
+    },
+
     // Input
     inputPlaceholder: 'メッセージを入力するか、🎤ボタンで音声入力...',
     listening: '🎤 音声を聞き取り中...',
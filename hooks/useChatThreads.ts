@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { threadStore, generateThreadId, ChatThreadMessage, ChatThreadSummary } from '@/lib/threadStore';
+
+interface UseChatThreadsReturn {
+  threads: ChatThreadSummary[];
+  activeThreadId: string | null;
+  saveMessages: (messages: ChatThreadMessage[]) => Promise<void>;
+  openThread: (threadId: string) => Promise<ChatThreadMessage[]>;
+  startNewThread: () => void;
+  renameThread: (threadId: string, title: string) => Promise<void>;
+  deleteThread: (threadId: string) => Promise<void>;
+}
+
+export function useChatThreads(): UseChatThreadsReturn {
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  const refreshThreads = useCallback(async () => {
+    try {
+      setThreads(await threadStore.listThreads());
+    } catch (error) {
+      console.error('❌ Failed to load chat threads:', error);
+    }
+  }, []);
+
+  // IndexedDB is only available in the browser
+  useEffect(() => {
+    refreshThreads();
+  }, [refreshThreads]);
+
+  // The first save of a new conversation creates its thread
+  const saveMessages = useCallback(async (messages: ChatThreadMessage[]) => {
+    const threadId = activeThreadId || generateThreadId();
+    setActiveThreadId(threadId);
+
+    try {
+      await threadStore.saveMessages(threadId, messages);
+      await refreshThreads();
+    } catch (error) {
+      console.error('❌ Failed to save chat thread:', error);
+    }
+  }, [activeThreadId, refreshThreads]);
+
+  const openThread = useCallback(async (threadId: string) => {
+    const thread = await threadStore.getThread(threadId);
+    setActiveThreadId(thread ? thread.id : null);
+    return thread ? thread.messages : [];
+  }, []);
+
+  const startNewThread = useCallback(() => {
+    setActiveThreadId(null);
+  }, []);
+
+  const renameThread = useCallback(async (threadId: string, title: string) => {
+    await threadStore.renameThread(threadId, title);
+    await refreshThreads();
+  }, [refreshThreads]);
+
+  const deleteThread = useCallback(async (threadId: string) => {
+    await threadStore.deleteThread(threadId);
+    if (threadId === activeThreadId) {
+      setActiveThreadId(null);
+    }
+    await refreshThreads();
+  }, [activeThreadId, refreshThreads]);
+
+  return {
+    threads,
+    activeThreadId,
+    saveMessages,
+    openThread,
+    startNewThread,
+    renameThread,
+    deleteThread
+  };
+}
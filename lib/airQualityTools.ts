@@ -0,0 +1,205 @@
+import { getWeatherProvider } from './weatherProvider';
+import { getCoordinates, parseDate, addDays } from './weatherTools';
+import type { GeocodeHints } from './geocoding';
+import type { CacheStatus } from './cache';
+import type { ChatTool } from './toolRegistry';
+import { checkDate } from './validation';
+
+// Air quality and pollen tool, backed by Open-Meteo's air-quality API (CAMS)
+// Pollen is only modelled for Europe, elsewhere it is null
+
+export interface AirQualityToolParams {
+  location: string;
+  date?: string;
+}
+
+export type AqiCategory = 'good' | 'moderate' | 'unhealthyForSensitive' | 'unhealthy' | 'veryUnhealthy' | 'hazardous' | 'unknown';
+export type PollenLevel = 'none' | 'low' | 'moderate' | 'high' | 'veryHigh';
+
+// Grains/m³
+export interface PollenCounts {
+  alder: number | null;
+  birch: number | null;
+  grass: number | null;
+  mugwort: number | null;
+  olive: number | null;
+  ragweed: number | null;
+}
+
+export interface AirQualityToolResponse {
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timezone?: string;
+  timestamp: string;
+  dateType: 'current' | 'historical' | 'forecast';
+  targetDate?: string; // For a date, every value is that day's peak hour
+  usAqi: number | null;
+  europeanAqi: number | null;
+  category: AqiCategory; // From the US AQI
+  pm2_5: number | null; // μg/m³
+  pm10: number | null;
+  ozone: number | null;
+  nitrogenDioxide: number | null;
+  pollen: PollenCounts | null;
+  pollenLevel: PollenLevel | null; // Highest of the pollen types
+  cache?: CacheStatus; // Whether the data came from the request cache
+}
+
+// CAMS global forecasts reach 5 days ahead
+const MAX_AIR_QUALITY_FORECAST_DAYS = 5;
+
+const POLLUTANT_VARIABLES = ['us_aqi', 'european_aqi', 'pm2_5', 'pm10', 'ozone', 'nitrogen_dioxide'];
+const POLLEN_VARIABLES = ['alder_pollen', 'birch_pollen', 'grass_pollen', 'mugwort_pollen', 'olive_pollen', 'ragweed_pollen'];
+const AIR_QUALITY_VARIABLES = [...POLLUTANT_VARIABLES, ...POLLEN_VARIABLES];
+
+// Air quality tool definition for OpenAI
+export const airQualityTool = {
+  type: "function" as const,
+  function: {
+    name: "get_air_quality",
+    description: "Get air quality and pollen for a city: US and European AQI, PM2.5, PM10, ozone, nitrogen dioxide, and pollen counts (Europe only). Use it for outdoor activity, exercise, travel or mask advice, or when the user asks about pollution, smog, haze or allergies. Combine it with get_weather for the same city and date.",
+    parameters: {
+      type: "object",
+      properties: {
+        location: {
+          type: "string",
+          description: "City name (e.g., 'Delhi', 'Tokyo', 'London'). Can be just city name or 'City, Country'."
+        },
+        date: {
+          type: "string",
+          description: `Date: 'today' (default), 'tomorrow', 'yesterday', or YYYY-MM-DD. Forecasts reach ${MAX_AIR_QUALITY_FORECAST_DAYS} days ahead. For a date, the day's peak values are returned.`
+        }
+      },
+      required: ["location"]
+    }
+  }
+};
+
+// US EPA AQI bands
+export function getAqiCategory(usAqi: number | null): AqiCategory {
+  if (usAqi === null) return 'unknown';
+  if (usAqi <= 50) return 'good';
+  if (usAqi <= 100) return 'moderate';
+  if (usAqi <= 150) return 'unhealthyForSensitive';
+  if (usAqi <= 200) return 'unhealthy';
+  if (usAqi <= 300) return 'veryUnhealthy';
+  return 'hazardous';
+}
+
+export function getPollenLevel(pollen: PollenCounts | null): PollenLevel | null {
+  if (!pollen) return null;
+
+  const highest = Math.max(...Object.values(pollen).map(value => value ?? 0));
+  if (highest < 1) return 'none';
+  if (highest < 20) return 'low';
+  if (highest < 50) return 'moderate';
+  if (highest < 200) return 'high';
+  return 'veryHigh';
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && !isNaN(value) ? value : null;
+}
+
+// Pollen variables come back null outside the European domain
+function readPollen(read: (variable: string) => number | null): PollenCounts | null {
+  const pollen: PollenCounts = {
+    alder: read('alder_pollen'),
+    birch: read('birch_pollen'),
+    grass: read('grass_pollen'),
+    mugwort: read('mugwort_pollen'),
+    olive: read('olive_pollen'),
+    ragweed: read('ragweed_pollen')
+  };
+
+  return Object.values(pollen).some(value => value !== null) ? pollen : null;
+}
+
+// Execute air quality tool
+export async function executeAirQualityTool(params: AirQualityToolParams, options: { geocodeHints?: GeocodeHints } = {}): Promise<AirQualityToolResponse> {
+  console.log('🛠️ Executing air quality tool:', params);
+
+  try {
+    const coords = await getCoordinates(params.location, options.geocodeHints);
+    const { targetDate, dateType } = parseDate(params.date);
+
+    if (targetDate && targetDate > addDays(new Date().toISOString().split('T')[0], MAX_AIR_QUALITY_FORECAST_DAYS)) {
+      throw new Error(`Air quality forecasts are only available up to ${MAX_AIR_QUALITY_FORECAST_DAYS} days in the future`);
+    }
+
+    const provider = getWeatherProvider();
+    const request = { latitude: coords.lat, longitude: coords.lng };
+    const data = targetDate
+      ? await provider.getAirQuality({ ...request, startDate: targetDate, endDate: targetDate, hourly: AIR_QUALITY_VARIABLES })
+      : await provider.getAirQuality({ ...request, current: AIR_QUALITY_VARIABLES });
+
+    let read: (variable: string) => number | null;
+    let timestamp: string;
+
+    if (targetDate) {
+      const hourly = data.hourly;
+      if (!hourly || !hourly.time || hourly.time.length === 0) {
+        throw new Error('No air quality data available for the requested date');
+      }
+
+      // Peak hour of the day for each variable
+      read = (variable) => {
+        const values = (hourly[variable] || []).map(toNumberOrNull).filter((value: number | null): value is number => value !== null);
+        return values.length > 0 ? Math.max(...values) : null;
+      };
+      timestamp = targetDate;
+    } else {
+      const current = data.current;
+      if (!current) {
+        throw new Error('No current air quality data available');
+      }
+
+      read = (variable) => toNumberOrNull(current[variable]);
+      timestamp = String(current.time);
+    }
+
+    const round = (value: number | null) => value === null ? null : Math.round(value);
+    const pollen = readPollen(read);
+    const usAqi = round(read('us_aqi'));
+
+    const result: AirQualityToolResponse = {
+      city: coords.city,
+      country: coords.country,
+      latitude: coords.lat,
+      longitude: coords.lng,
+      timezone: data.timezone,
+      timestamp,
+      dateType: dateType as AirQualityToolResponse['dateType'], // Climate dates are rejected above
+      targetDate,
+      usAqi,
+      europeanAqi: round(read('european_aqi')),
+      category: getAqiCategory(usAqi),
+      pm2_5: round(read('pm2_5')),
+      pm10: round(read('pm10')),
+      ozone: round(read('ozone')),
+      nitrogenDioxide: round(read('nitrogen_dioxide')),
+      pollen,
+      pollenLevel: getPollenLevel(pollen),
+      cache: data.cache
+    };
+
+    console.log('✅ Air quality tool result:', result);
+    return result;
+
+  } catch (error) {
+    console.error('❌ Air quality tool error:', error);
+    throw error;
+  }
+}
+
+// Registry entry for the chat routes
+export const airQualityChatTool: ChatTool<AirQualityToolParams, AirQualityToolResponse> = {
+  definition: airQualityTool,
+  validate: params => [params.date !== undefined ? checkDate('date', params.date) : null].filter((problem): problem is string => problem !== null),
+  execute: (params, { geocodeHints }) => executeAirQualityTool(params, { geocodeHints }),
+  localizeError: (error, language) => language === 'ja'
+    ? '大気質データを取得できませんでした。'
+    : "Couldn't get air quality data."
+};
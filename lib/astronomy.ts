@@ -0,0 +1,147 @@
+// Sunrise, sunset, twilight and golden hour computed locally from coordinates
+// Uses the NOAA solar calculator equations (accurate to about a minute below ±72° latitude), no API needed
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// All times are local to the location's timezone (YYYY-MM-DDTHH:mm), like hourly weather entries
+export interface SunTimes {
+  date: string;
+  timezone: string;
+  sunrise: string | null; // null during polar day or night
+  sunset: string | null;
+  solarNoon: string;
+  civilDawn: string | null; // Sun 6° below the horizon
+  civilDusk: string | null;
+  goldenHourMorning: TimeWindow | null; // Sunrise until the sun is 6° high
+  goldenHourEvening: TimeWindow | null;
+  daylightMinutes: number;
+  polar?: 'day' | 'night';
+}
+
+const SUNRISE_ZENITH = 90.833; // Includes refraction and the solar disc radius
+const CIVIL_ZENITH = 96;
+const GOLDEN_HOUR_ZENITH = 84;
+const MINUTES_PER_DAY = 24 * 60;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Julian centuries since J2000.0 for a UTC date plus minutes
+function julianCentury(date: string, minutes: number): number {
+  const julianDay = Date.parse(`${date}T00:00:00Z`) / 86400000 + 2440587.5 + minutes / MINUTES_PER_DAY;
+  return (julianDay - 2451545) / 36525;
+}
+
+// Sun declination (degrees) and equation of time (minutes)
+function solarPosition(t: number): { declination: number; equationOfTime: number } {
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const m = toRadians(meanAnomaly);
+  const center = Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t))
+    + Math.sin(2 * m) * (0.019993 - 0.000101 * t)
+    + Math.sin(3 * m) * 0.000289;
+
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude = meanLongitude + center - 0.00569 - 0.00478 * Math.sin(omega);
+  const meanObliquity = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = toRadians(meanObliquity + 0.00256 * Math.cos(omega));
+
+  const declination = toDegrees(Math.asin(Math.sin(obliquity) * Math.sin(toRadians(apparentLongitude))));
+
+  const y = Math.tan(obliquity / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime = 4 * toDegrees(
+    y * Math.sin(2 * l0)
+    - 2 * eccentricity * Math.sin(m)
+    + 4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0)
+    - 0.5 * y * y * Math.sin(4 * l0)
+    - 1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+  );
+
+  return { declination, equationOfTime };
+}
+
+// Hour angle (degrees) at which the sun reaches the zenith angle; NaN when it never does that day
+function hourAngle(latitude: number, declination: number, zenith: number): number {
+  const lat = toRadians(latitude);
+  const dec = toRadians(declination);
+  const cosHourAngle = Math.cos(toRadians(zenith)) / (Math.cos(lat) * Math.cos(dec)) - Math.tan(lat) * Math.tan(dec);
+  return cosHourAngle > 1 || cosHourAngle < -1 ? NaN : toDegrees(Math.acos(cosHourAngle));
+}
+
+// Minutes after UTC midnight of the date when the sun crosses the zenith angle (morning or evening)
+function eventMinutes(date: string, latitude: number, longitude: number, zenith: number, rising: boolean): number | null {
+  // Start from solar noon, then refine once with the sun's position at the event itself
+  let minutes = 720 - 4 * longitude;
+  for (let pass = 0; pass < 2; pass++) {
+    const { declination, equationOfTime } = solarPosition(julianCentury(date, minutes));
+    const angle = hourAngle(latitude, declination, zenith);
+    if (isNaN(angle)) {
+      return null;
+    }
+    minutes = 720 - 4 * (longitude + (rising ? angle : -angle)) - equationOfTime;
+  }
+  return minutes;
+}
+
+function solarNoonMinutes(date: string, longitude: number): number {
+  const approximate = 720 - 4 * longitude;
+  return approximate - solarPosition(julianCentury(date, approximate)).equationOfTime;
+}
+
+// Local YYYY-MM-DDTHH:mm for minutes after UTC midnight of the date
+function toLocalTime(date: string, minutes: number, timezone: string): string {
+  const local = new Date(Date.parse(`${date}T00:00:00Z`) + Math.round(minutes) * 60000)
+    .toLocaleString('sv-SE', { timeZone: timezone });
+  return `${local.slice(0, 10)}T${local.slice(11, 16)}`;
+}
+
+// Today's date in the location's timezone
+export function getLocalDate(timezone: string): string {
+  return new Date().toLocaleString('sv-SE', { timeZone: timezone }).slice(0, 10);
+}
+
+// Sun times for a local date (YYYY-MM-DD) at the given coordinates
+export function getSunTimes(latitude: number, longitude: number, date: string, timezone: string = 'UTC'): SunTimes {
+  const local = (minutes: number | null) => minutes === null ? null : toLocalTime(date, minutes, timezone);
+
+  const sunrise = eventMinutes(date, latitude, longitude, SUNRISE_ZENITH, true);
+  const sunset = eventMinutes(date, latitude, longitude, SUNRISE_ZENITH, false);
+  const goldenMorningEnd = eventMinutes(date, latitude, longitude, GOLDEN_HOUR_ZENITH, true);
+  const goldenEveningStart = eventMinutes(date, latitude, longitude, GOLDEN_HOUR_ZENITH, false);
+  const solarNoon = solarNoonMinutes(date, longitude);
+
+  const times: SunTimes = {
+    date,
+    timezone,
+    sunrise: local(sunrise),
+    sunset: local(sunset),
+    solarNoon: local(solarNoon)!,
+    civilDawn: local(eventMinutes(date, latitude, longitude, CIVIL_ZENITH, true)),
+    civilDusk: local(eventMinutes(date, latitude, longitude, CIVIL_ZENITH, false)),
+    // When the sun never climbs 6° the golden hour lasts from sunrise to sunset
+    goldenHourMorning: sunrise !== null ? { start: local(sunrise)!, end: local(goldenMorningEnd ?? sunset)! } : null,
+    goldenHourEvening: sunset !== null ? { start: local(goldenEveningStart ?? sunrise)!, end: local(sunset)! } : null,
+    daylightMinutes: sunrise !== null && sunset !== null ? Math.round(sunset - sunrise) : 0
+  };
+
+  // No sunrise: the sun stays up all day or below the horizon all day
+  if (sunrise === null || sunset === null) {
+    const { declination } = solarPosition(julianCentury(date, solarNoon));
+    const noonAltitude = 90 - Math.abs(latitude - declination);
+    times.polar = noonAltitude > 0 ? 'day' : 'night';
+    times.daylightMinutes = times.polar === 'day' ? MINUTES_PER_DAY : 0;
+  }
+
+  return times;
+}
+
+// e.g. "13h 45m"
+export function formatDaylight(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
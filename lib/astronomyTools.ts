@@ -0,0 +1,94 @@
+import { getCoordinates, parseDate, addDays } from './weatherTools';
+import { getSunTimes, getLocalDate, SunTimes } from './astronomy';
+import type { GeocodeHints } from './geocoding';
+import type { ChatTool } from './toolRegistry';
+import { checkDate, checkIntegerRange } from './validation';
+
+// Sunrise/sunset tool, computed locally so it needs no weather API
+
+export interface SunTimesToolParams {
+  location: string;
+  date?: string;
+  days?: number;
+}
+
+export interface SunTimesToolResponse {
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  days: SunTimes[]; // One entry per requested day
+}
+
+const MAX_SUN_TIMES_DAYS = 16;
+
+// Sun times tool definition for OpenAI
+export const sunTimesTool = {
+  type: "function" as const,
+  function: {
+    name: "get_sun_times",
+    description: "Get sunrise, sunset, solar noon, civil twilight, golden hour and day length for a city in its local time. Use it for questions about when the sun rises or sets, daylight, or planning photo walks and golden-hour shoots. Works for any date, past or future.",
+    parameters: {
+      type: "object",
+      properties: {
+        location: {
+          type: "string",
+          description: "City name (e.g., 'Kyoto', 'Reykjavik', 'New York'). Can be just city name or 'City, Country'."
+        },
+        date: {
+          type: "string",
+          description: "First day: 'today' (default), 'tomorrow', 'yesterday', or YYYY-MM-DD."
+        },
+        days: {
+          type: "integer",
+          description: `Number of consecutive days starting at date. Maximum ${MAX_SUN_TIMES_DAYS}.`
+        }
+      },
+      required: ["location"]
+    }
+  }
+};
+
+// Execute sun times tool
+export async function executeSunTimesTool(params: SunTimesToolParams, options: { geocodeHints?: GeocodeHints } = {}): Promise<SunTimesToolResponse> {
+  console.log('🛠️ Executing sun times tool:', params);
+
+  try {
+    const coords = await getCoordinates(params.location, options.geocodeHints);
+    const timezone = coords.timezone || 'UTC';
+    const startDate = parseDate(params.date).targetDate || getLocalDate(timezone);
+    const dayCount = Math.max(1, Math.min(params.days || 1, MAX_SUN_TIMES_DAYS));
+
+    const result: SunTimesToolResponse = {
+      city: coords.city,
+      country: coords.country,
+      latitude: coords.lat,
+      longitude: coords.lng,
+      timezone,
+      days: Array.from({ length: dayCount }, (_, index) =>
+        getSunTimes(coords.lat, coords.lng, addDays(startDate, index), timezone)
+      )
+    };
+
+    console.log('✅ Sun times tool result:', result);
+    return result;
+
+  } catch (error) {
+    console.error('❌ Sun times tool error:', error);
+    throw error;
+  }
+}
+
+// Registry entry for the chat routes
+export const sunTimesChatTool: ChatTool<SunTimesToolParams, SunTimesToolResponse> = {
+  definition: sunTimesTool,
+  validate: params => [
+    params.date !== undefined ? checkDate('date', params.date) : null,
+    params.days !== undefined ? checkIntegerRange('days', params.days, 1, MAX_SUN_TIMES_DAYS) : null
+  ].filter((problem): problem is string => problem !== null),
+  execute: (params, { geocodeHints }) => executeSunTimesTool(params, { geocodeHints }),
+  localizeError: (error, language) => language === 'ja'
+    ? '日の出・日の入りの時刻を計算できませんでした。'
+    : "Couldn't work out the sunrise and sunset times."
+};
@@ -0,0 +1,100 @@
+import { createCacheStorageAdapter, CacheStorageAdapter } from './cacheStorage';
+
+// Shared cache for upstream fetches (geocoding, forecasts, archive data)
+// Entries expire after a per-endpoint TTL, and concurrent loads of the same key share one request
+
+export interface CacheStatus {
+  hit: boolean; // Served without a new upstream request
+  fetchedAt: string; // When the data was fetched upstream (ISO 8601)
+  shared?: boolean; // Joined a request already in flight for the same key
+}
+
+export interface Cached<T> {
+  value: T;
+  cache: CacheStatus;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// How long each kind of upstream data stays fresh
+export const CACHE_TTL = {
+  geocode: 30 * DAY, // Places do not move
+  archive: 30 * DAY, // Past weather is final once the archive has it
+  recentArchive: 6 * HOUR, // The last few days are still being revised
+  forecast: 30 * MINUTE, // Models update hourly at best
+  airQuality: 30 * MINUTE,
+  current: 5 * MINUTE
+};
+
+export class RequestCache {
+  private inFlight = new Map<string, Promise<Cached<unknown>>>();
+
+  constructor(private readonly storage: CacheStorageAdapter) {
+    console.log('🗄️ Using request cache:', storage.name);
+  }
+
+  get storageName(): string {
+    return this.storage.name;
+  }
+
+  // Cached value for the key, or the loader's result stored for ttlMs
+  async getOrLoad<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<Cached<T>> {
+    // Registered before the storage read, so concurrent misses share one load even with async storage
+    const pending = this.inFlight.get(key) as Promise<Cached<T>> | undefined;
+    if (pending) {
+      const shared = await pending;
+      return { value: shared.value, cache: { ...shared.cache, hit: true, shared: true } };
+    }
+
+    const request = this.readOrLoad(key, ttlMs, load);
+    this.inFlight.set(key, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.inFlight.clear();
+    await this.storage.clear();
+  }
+
+  private async readOrLoad<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<Cached<T>> {
+    const entry = await this.storage.get<T>(key).catch(error => {
+      console.warn('⚠️ Cache read failed:', error instanceof Error ? error.message : error);
+      return null;
+    });
+
+    if (entry && entry.expiresAt > Date.now()) {
+      return { value: entry.value, cache: { hit: true, fetchedAt: new Date(entry.storedAt).toISOString() } };
+    }
+
+    const value = await load();
+    const storedAt = Date.now();
+
+    // A failed write only costs a future refetch
+    await this.storage.set(key, { value, storedAt, expiresAt: storedAt + ttlMs }).catch(error => {
+      console.warn('⚠️ Cache write failed:', error instanceof Error ? error.message : error);
+    });
+
+    return { value, cache: { hit: false, fetchedAt: new Date(storedAt).toISOString() } };
+  }
+}
+
+// One status for a result built from several fetches: a hit only if every fetch was, dated by the oldest
+export function combineCacheStatus(statuses: Array<CacheStatus | undefined>): CacheStatus | undefined {
+  const known = statuses.filter((status): status is CacheStatus => status !== undefined);
+  if (known.length === 0) {
+    return undefined;
+  }
+
+  return {
+    hit: known.every(status => status.hit),
+    fetchedAt: known.map(status => status.fetchedAt).sort()[0]
+  };
+}
+
+export const requestCache = new RequestCache(createCacheStorageAdapter());
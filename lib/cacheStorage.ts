@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+
+// Storage backends for the request cache (see cache.ts)
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number; // ms since epoch
+  expiresAt: number;
+}
+
+export interface CacheStorageAdapter {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Per instance; the oldest entries are dropped past maxEntries
+export class MemoryCacheAdapter implements CacheStorageAdapter {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return (this.entries.get(key) as CacheEntry<T> | undefined) || null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    // Re-insert so Map order stays oldest-first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// One JSON file per key, survives restarts and can be shared between instances on one volume
+export class FileCacheAdapter implements CacheStorageAdapter {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf-8');
+      return JSON.parse(raw);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so concurrent readers never see a partial file
+    const filePath = this.filePath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private filePath(key: string): string {
+    // Keys are URLs and request JSON, so hash them into safe file names
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+// Select the adapter from CACHE_STORE ("memory" by default, "file" for persistence)
+export function createCacheStorageAdapter(): CacheStorageAdapter {
+  const storeName = process.env.CACHE_STORE || 'memory';
+
+  switch (storeName) {
+    case 'file':
+      return new FileCacheAdapter(process.env.CACHE_STORE_DIR || path.join(process.cwd(), '.cache'));
+    case 'memory':
+      return new MemoryCacheAdapter(parseInt(process.env.CACHE_MAX_ENTRIES || String(DEFAULT_MAX_ENTRIES), 10));
+    default:
+      throw new Error(`Unknown cache store: ${storeName}`);
+  }
+}
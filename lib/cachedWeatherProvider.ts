@@ -0,0 +1,55 @@
+import type { WeatherProvider, WeatherRequest, WeatherPayload, GeocodeResult, GeocodeOptions } from './weatherProvider';
+import { RequestCache, CACHE_TTL } from './cache';
+
+// Caching decorator for any weather provider
+// Payloads carry a "cache" status so tool results can report whether they were served from the cache
+
+const RECENT_ARCHIVE_DAYS = 7;
+
+// Archive days close to today are still revised, older ones are final
+function archiveTtl(request: WeatherRequest): number {
+  const recent = new Date(Date.now() - RECENT_ARCHIVE_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return request.endDate && request.endDate < recent ? CACHE_TTL.archive : CACHE_TTL.recentArchive;
+}
+
+export class CachedWeatherProvider implements WeatherProvider {
+  readonly name: string;
+
+  constructor(private readonly provider: WeatherProvider, private readonly cache: RequestCache) {
+    this.name = provider.name;
+  }
+
+  getCurrent(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.cached('current', request, CACHE_TTL.current, () => this.provider.getCurrent(request));
+  }
+
+  getDaily(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.cached('daily', request, CACHE_TTL.forecast, () => this.provider.getDaily(request));
+  }
+
+  getArchive(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.cached('archive', request, archiveTtl(request), () => this.provider.getArchive(request));
+  }
+
+  getAirQuality(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.cached('air-quality', request, CACHE_TTL.airQuality, () => this.provider.getAirQuality(request));
+  }
+
+  async geocode(name: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+    const key = `${this.provider.name}:geocode:${JSON.stringify([name.toLowerCase().trim(), options.count || 1, options.language || 'en'])}`;
+    const { value } = await this.cache.getOrLoad(key, CACHE_TTL.geocode, () => this.provider.geocode(name, options));
+    return value;
+  }
+
+  private async cached(endpoint: string, request: WeatherRequest, ttlMs: number, load: () => Promise<WeatherPayload>): Promise<WeatherPayload> {
+    const key = `${this.provider.name}:${endpoint}:${JSON.stringify(request)}`;
+    const { value, cache } = await this.cache.getOrLoad(key, ttlMs, load);
+
+    if (cache.hit) {
+      console.log(`⚡ Cache ${cache.shared ? 'shared' : 'hit'}: ${endpoint} (fetched ${cache.fetchedAt})`);
+    }
+
+    // Copy so the stored payload is never modified by callers
+    return { ...value, cache };
+  }
+}
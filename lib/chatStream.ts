@@ -0,0 +1,116 @@
+import type { WeatherToolResponse } from './weatherTools';
+import type { OutfitRecommendation } from './outfitRecommendation';
+import type { TripPlan } from './tripPlanner';
+import type { LocationCandidate } from './geocoding';
+import type { ToolLoopStep } from './toolLoop';
+
+// Streaming protocol between /api/chat and ChatInterface
+// Each event is sent as one Server-Sent Events `data:` line containing JSON
+
+export type ChatStreamEvent =
+  | { type: 'weather'; weatherData: WeatherToolResponse[]; outfits: OutfitRecommendation[]; multiCity: boolean }
+  | { type: 'trip'; trip: TripPlan }
+  | { type: 'disambiguation'; query: string; candidates: LocationCandidate[] } // The place name matched several locations
+  | { type: 'text'; delta: string }
+  | { type: 'done'; toolUsed: boolean; toolsUsed: number; error?: boolean; steps?: ToolLoopStep[] } // steps: model calls and their tool calls, for debugging
+  | { type: 'error'; message: string };
+
+const encoder = new TextEncoder();
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+// Build an SSE response whose events are produced by the given writer
+export function createChatStreamResponse(
+  write: (send: (event: ChatStreamEvent) => void) => Promise<void>
+): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encodeChatStreamEvent(event));
+
+      try {
+        await write(send);
+      } catch (error) {
+        console.error('❌ Chat stream error:', error);
+        send({ type: 'error', message: error instanceof Error ? error.message : 'Stream failed' });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+// Payload of one event's `data:` lines
+function eventData(rawEvent: string): string {
+  return rawEvent
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+}
+
+// Yield the payload of every `data:` field in a Server-Sent Events body
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let pendingReturn = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      let text: string = (pendingReturn ? '\r' : '') + (done ? decoder.decode() : decoder.decode(value, { stream: true }));
+
+      // Lines may end in \r\n, \r or \n; a \r at the end of a chunk may be the first half of \r\n
+      pendingReturn = !done && text.endsWith('\r');
+      if (pendingReturn) {
+        text = text.slice(0, -1);
+      }
+      buffer += text.replace(/\r\n?/g, '\n');
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const data = eventData(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+
+        if (data) {
+          yield data;
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) {
+        // The last event may end without a blank line
+        const data = eventData(buffer);
+        if (data) {
+          yield data;
+        }
+        break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Client-side reader for the /api/chat stream
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const data of readServerSentEvents(body)) {
+    try {
+      yield JSON.parse(data) as ChatStreamEvent;
+    } catch {
+      console.error('❌ Failed to parse chat stream event:', data);
+    }
+  }
+}
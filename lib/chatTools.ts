@@ -0,0 +1,20 @@
+import { ToolRegistry, ToolCallResultOf } from './toolRegistry';
+import { weatherChatTool } from './weatherTools';
+import { airQualityChatTool } from './airQualityTools';
+import { sunTimesChatTool } from './astronomyTools';
+import { tripPlanChatTool } from './tripPlanner';
+import { weatherAnomalyChatTool } from './weatherAnomaly';
+
+// Tools offered by /api/chat; register a tool module here to make it available to the model
+
+const chatTools = {
+  get_weather: weatherChatTool,
+  get_air_quality: airQualityChatTool,
+  get_sun_times: sunTimesChatTool,
+  plan_trip: tripPlanChatTool,
+  get_weather_anomaly: weatherAnomalyChatTool
+};
+
+export const chatToolRegistry = new ToolRegistry(chatTools);
+
+export type ChatToolResult = ToolCallResultOf<typeof chatTools>;
@@ -0,0 +1,129 @@
+import { getWeatherProvider } from './weatherProvider';
+import { parseDailyEntries, getWeatherDescription, addDays, DAILY_VARIABLES, DailyWeatherEntry } from './weatherTools';
+import { getSunTimes } from './astronomy';
+import { UnitSystem } from './units';
+import { combineCacheStatus, CacheStatus } from './cache';
+
+// Typical weather for dates beyond the forecast horizon
+// Averages the same calendar days over recent years of archive data
+
+export interface ClimateNormalsRequest {
+  latitude: number;
+  longitude: number;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string;
+  units?: UnitSystem;
+  years?: number; // How many past years to average (CLIMATE_NORMAL_YEARS by default)
+}
+
+export interface ClimateNormalDay extends DailyWeatherEntry {
+  rainChance: number; // % of sampled years with at least 1 mm of precipitation
+}
+
+export interface ClimateNormals {
+  timezone: string;
+  years: number[]; // Years that were averaged
+  days: ClimateNormalDay[];
+  history: Array<{ year: number; days: DailyWeatherEntry[] }>; // Each sampled year's own values, most recent first
+  cache?: CacheStatus;
+}
+
+export const CLIMATE_NORMAL_YEARS = 5;
+export const MAX_CLIMATE_NORMAL_YEARS = 30;
+
+const WET_DAY_MM = 1;
+const WET_DAY_INCHES = 0.04;
+
+// Same month and day in an earlier year; Feb 29 falls back to Feb 28 in common years
+function shiftYears(date: string, years: number): string {
+  const year = parseInt(date.slice(0, 4), 10) - years;
+  const monthDay = date.slice(5);
+  const isLeapYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  return `${year}-${monthDay === '02-29' && !isLeapYear ? '02-28' : monthDay}`;
+}
+
+function average(values: number[], digits: number = 0): number {
+  const factor = 10 ** digits;
+  return Math.round(values.reduce((total, value) => total + value, 0) / values.length * factor) / factor;
+}
+
+function averageOrNull(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? average(known) : null;
+}
+
+// Most common weather code, the more severe (higher) code on ties
+function mostCommonCode(codes: number[]): number {
+  const counts = new Map<number, number>();
+  for (const code of codes) {
+    counts.set(code, (counts.get(code) || 0) + 1);
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+}
+
+export async function getClimateNormals(request: ClimateNormalsRequest): Promise<ClimateNormals> {
+  const provider = getWeatherProvider();
+  const yearCount = Math.max(1, Math.min(request.years || CLIMATE_NORMAL_YEARS, MAX_CLIMATE_NORMAL_YEARS));
+  const years = Array.from({ length: yearCount }, (_, index) => index + 1);
+  console.log('📈 Climate normals:', request.startDate, '→', request.endDate, `(${yearCount} years)`);
+
+  const payloads = await Promise.all(years.map(yearsBack => provider.getArchive({
+    latitude: request.latitude,
+    longitude: request.longitude,
+    startDate: shiftYears(request.startDate, yearsBack),
+    endDate: shiftYears(request.endDate, yearsBack),
+    daily: DAILY_VARIABLES,
+    units: request.units
+  })));
+
+  const timezone = payloads[0].timezone;
+  const history = payloads
+    .map((payload, index) => ({ year: parseInt(shiftYears(request.startDate, years[index]).slice(0, 4), 10), daily: payload.daily }))
+    .filter(({ daily }) => daily && daily.time && daily.time.length > 0)
+    .map(({ year, daily }) => ({ year, days: parseDailyEntries(daily!, request.latitude, request.longitude, timezone) }));
+  const samples = history.map(sample => sample.days);
+
+  if (samples.length === 0) {
+    throw new Error('No archive data available to estimate typical weather');
+  }
+
+  const wetThreshold = request.units === 'imperial' ? WET_DAY_INCHES : WET_DAY_MM;
+  const days: ClimateNormalDay[] = [];
+
+  // Align years by day offset from the start of the range
+  for (let index = 0, date = request.startDate; date <= request.endDate; index++, date = addDays(request.startDate, index)) {
+    const entries = samples.map(sample => sample[index]).filter((entry): entry is DailyWeatherEntry => entry !== undefined);
+    if (entries.length === 0) {
+      break;
+    }
+
+    const weatherCode = mostCommonCode(entries.map(entry => entry.weatherCode));
+    const { sunrise, sunset } = getSunTimes(request.latitude, request.longitude, date, timezone);
+
+    days.push({
+      date,
+      temperatureMax: average(entries.map(entry => entry.temperatureMax)),
+      temperatureMin: average(entries.map(entry => entry.temperatureMin)),
+      weatherCode,
+      description: getWeatherDescription(weatherCode),
+      humidity: average(entries.map(entry => entry.humidity)),
+      windSpeed: average(entries.map(entry => entry.windSpeed), 1),
+      precipitation: average(entries.map(entry => entry.precipitation), 1),
+      uvIndex: average(entries.map(entry => entry.uvIndex ?? 0), 1),
+      apparentTemperatureMax: averageOrNull(entries.map(entry => entry.apparentTemperatureMax)),
+      apparentTemperatureMin: averageOrNull(entries.map(entry => entry.apparentTemperatureMin)),
+      windGusts: averageOrNull(entries.map(entry => entry.windGusts)),
+      sunrise,
+      sunset,
+      rainChance: Math.round(entries.filter(entry => entry.precipitation >= wetThreshold).length / entries.length * 100)
+    });
+  }
+
+  return {
+    timezone,
+    years: history.map(sample => sample.year),
+    days,
+    history,
+    cache: combineCacheStatus(payloads.map(payload => payload.cache))
+  };
+}
@@ -0,0 +1,102 @@
+import { celsiusToFahrenheit, fahrenheitToCelsius, mphToKmh, UnitSystem } from './units';
+
+// Comfort indices shared by the weather tool, the legacy weather flow and outfit rules
+// The formulas work in metric (°C, % relative humidity, km/h wind); getComfortIndices converts imperial input
+
+export interface ComfortIndices {
+  apparentTemperature: number; // "Feels like": Open-Meteo's value when available, otherwise calculated
+  dewPoint: number | null;
+  windGusts: number | null; // km/h (mph for imperial)
+  heatIndex: number | null; // Only when hot and humid (≥ 27°C, ≥ 40%)
+  windChill: number | null; // Only when cold and windy (≤ 10°C, > 4.8 km/h)
+  humidex: number | null; // Canadian humidity index, only when warm (≥ 20°C)
+}
+
+export interface ComfortInput {
+  temperature: number;
+  humidity: number;
+  windSpeed: number;
+  dewPoint?: number | null;
+  apparentTemperature?: number | null;
+  windGusts?: number | null;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Magnus formula
+export function calculateDewPoint(temperature: number, humidity: number): number {
+  const a = 17.625;
+  const b = 243.04;
+  const gamma = Math.log(Math.max(humidity, 1) / 100) + (a * temperature) / (b + temperature);
+  return round1((b * gamma) / (a - gamma));
+}
+
+// NWS Rothfusz regression (computed in °F)
+export function calculateHeatIndex(temperature: number, humidity: number): number | null {
+  if (temperature < 27 || humidity < 40) {
+    return null;
+  }
+
+  const t = temperature * 9 / 5 + 32;
+  const rh = humidity;
+  const heatIndexF = -42.379 + 2.04901523 * t + 10.14333127 * rh
+    - 0.22475541 * t * rh - 0.00683783 * t * t - 0.05481717 * rh * rh
+    + 0.00122874 * t * t * rh + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+
+  return round1((heatIndexF - 32) * 5 / 9);
+}
+
+// Environment Canada / NWS wind chill
+export function calculateWindChill(temperature: number, windSpeed: number): number | null {
+  if (temperature > 10 || windSpeed <= 4.8) {
+    return null;
+  }
+
+  const windFactor = Math.pow(windSpeed, 0.16);
+  return round1(13.12 + 0.6215 * temperature - 11.37 * windFactor + 0.3965 * temperature * windFactor);
+}
+
+export function calculateHumidex(temperature: number, dewPoint: number): number | null {
+  if (temperature < 20) {
+    return null;
+  }
+
+  const vapourPressure = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / (273.15 + dewPoint)));
+  return round1(temperature + 0.5555 * (vapourPressure - 10));
+}
+
+// Heat index when hot, wind chill when cold, the air temperature otherwise
+export function calculateFeelsLike(temperature: number, humidity: number, windSpeed: number): number {
+  return calculateHeatIndex(temperature, humidity)
+    ?? calculateWindChill(temperature, windSpeed)
+    ?? temperature;
+}
+
+// Input and result use the given unit system (gusts are passed through unchanged)
+export function getComfortIndices(input: ComfortInput, units: UnitSystem = 'metric'): ComfortIndices {
+  const toCelsius = (value: number) => units === 'imperial' ? fahrenheitToCelsius(value) : value;
+  const fromCelsius = (value: number | null) => value !== null && units === 'imperial' ? celsiusToFahrenheit(value) : value;
+
+  const temperature = toCelsius(input.temperature);
+  const humidity = input.humidity;
+  const windSpeed = units === 'imperial' ? mphToKmh(input.windSpeed) : input.windSpeed;
+  const apparentTemperature = input.apparentTemperature ?? null;
+  const dewPoint = input.dewPoint !== null && input.dewPoint !== undefined
+    ? toCelsius(input.dewPoint)
+    : humidity > 0 ? calculateDewPoint(temperature, humidity) : null;
+
+  const feelsLike = calculateFeelsLike(temperature, humidity, windSpeed);
+
+  return {
+    apparentTemperature: apparentTemperature !== null
+      ? round1(apparentTemperature)
+      : units === 'imperial' ? celsiusToFahrenheit(feelsLike) : round1(feelsLike),
+    dewPoint: fromCelsius(dewPoint),
+    windGusts: input.windGusts ?? null,
+    heatIndex: fromCelsius(calculateHeatIndex(temperature, humidity)),
+    windChill: fromCelsius(calculateWindChill(temperature, windSpeed)),
+    humidex: dewPoint !== null ? fromCelsius(calculateHumidex(temperature, dewPoint)) : null
+  };
+}
@@ -1,3 +1,5 @@
+import { detectExplicitLocation } from './contextResolver';
+
 export interface LocationData {
     city: string;
     country: string;
@@ -130,6 +132,12 @@ class ContextManager {
                 } else {
                     console.log('⏰ Stored context expired, starting fresh');
                     this.clearPersistedContext();
+
+                    // Preferences (language, units) outlive the conversation context
+                    if (parsedContext.preferences) {
+                        this.context.preferences = { ...this.context.preferences, ...parsedContext.preferences };
+                        this.persistContext();
+                    }
                 }
             }
         } catch (error) {
@@ -274,10 +282,12 @@ class ContextManager {
     } {
         console.log('🧠 Resolving implicit context for query:', query);
 
-        // Simple client-side context resolution
-        const hasExplicitLocation = language === 'ja'
-            ? /の天気|で|に/.test(query)
-            : /in |at |for /.test(query.toLowerCase());
+        // Same location detection as the server-side resolver
+        const hasExplicitLocation = detectExplicitLocation(
+            query,
+            language,
+            this.context.location.recent.map(location => location.city)
+        ) !== null;
 
         // Determine if we need more input
         const needsLocationInput = !hasExplicitLocation && !this.context.location.current;
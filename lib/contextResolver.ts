@@ -0,0 +1,298 @@
+import type { WeatherContext, TemporalContext } from './contextManager';
+
+// Rule-based resolver for locations and dates in English and Japanese queries
+// Merges what the query states explicitly with the session's current location and temporal context
+
+export type ResolverLanguage = 'en' | 'ja';
+export type DateType = TemporalContext['currentTimeframe'];
+
+export interface ResolvedDate {
+  expression: string; // Matched text, e.g. "yesterday", "あさって", "10月10日"
+  dateType: DateType;
+  targetDate: string | null; // YYYY-MM-DD, null for current conditions
+}
+
+export interface ResolvedLocation {
+  city: string;
+  country?: string;
+  source: 'query' | 'session';
+}
+
+export interface ContextResolution {
+  query: string;
+  language: ResolverLanguage;
+  explicitLocation: string | null;
+  explicitDate: ResolvedDate | null;
+  isFollowUp: boolean;
+  location: ResolvedLocation | null;
+  temporal: {
+    dateType: DateType;
+    targetDate: string | null;
+    source: 'query' | 'session' | 'default';
+  };
+  needsLocationInput: boolean;
+  contextualQuery: string;
+}
+
+export interface ResolveOptions {
+  language?: string;
+  today?: Date;
+  knownLocations?: string[]; // Extra names to recognise without a preposition (e.g. recent locations)
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const WEEKDAYS_EN = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAYS_JA = ['日', '月', '火', '水', '木', '金', '土'];
+
+// Words that can follow "in/for/at" without being a place
+const NON_LOCATION_WORDS = new Set([
+  'a', 'an', 'the', 'my', 'me', 'it', 'this', 'that', 'there', 'here', 'next', 'last', 'general',
+  'today', 'tomorrow', 'yesterday', 'now', 'tonight', 'morning', 'afternoon', 'evening', 'night',
+  'weekend', 'week', 'days', 'day', 'rain', 'snow', 'sun', 'summer', 'winter', 'spring', 'autumn', 'fall',
+  'weather', 'you', 'us', 'work', 'school', 'walk', 'outfit', 'clothes'
+]);
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// Full-width digits (１０月) are common in Japanese input
+function normalizeDigits(text: string): string {
+  return text.replace(/[０-９]/g, digit => String.fromCharCode(digit.charCodeAt(0) - 0xfee0));
+}
+
+function classifyDate(target: Date, today: Date, expression: string): ResolvedDate {
+  const targetDate = toIsoDate(target);
+  const todayDate = toIsoDate(today);
+
+  if (targetDate === todayDate) {
+    return { expression, dateType: 'current', targetDate: null };
+  }
+
+  return {
+    expression,
+    dateType: targetDate < todayDate ? 'historical' : 'forecast',
+    targetDate
+  };
+}
+
+// Days until the given weekday; "next" always moves at least one day ahead
+function daysUntilWeekday(today: Date, weekday: number, forceNext: boolean): number {
+  const diff = (weekday - today.getUTCDay() + 7) % 7;
+  return diff === 0 && forceNext ? 7 : diff;
+}
+
+// Detect an explicit date expression; relative terms are calculated from `today`
+export function detectExplicitDate(query: string, language: string = 'en', today: Date = new Date()): ResolvedDate | null {
+  const text = normalizeDigits(query).toLowerCase();
+  const relative = (days: number, expression: string) => classifyDate(addDays(today, days), today, expression);
+
+  // ISO dates work in both languages
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    return classifyDate(new Date(`${iso[0]}T00:00:00Z`), today, iso[0]);
+  }
+
+  if (language === 'ja') {
+    // Longer terms first: 一昨日 contains 昨日
+    const jaTerms: Array<[RegExp, number]> = [
+      [/一昨日|おととい/, -2],
+      [/明後日|あさって/, 2],
+      [/昨日|きのう/, -1],
+      [/明日|あした|あす/, 1],
+      // A bare 今 (now), but not 今週, 今月 or 今年
+      [/今日|本日|現在|今夜|今晩|いま|今(?![週月年])/, 0]
+    ];
+    for (const [pattern, days] of jaTerms) {
+      const match = text.match(pattern);
+      if (match) return relative(days, match[0]);
+    }
+
+    const offset = text.match(/(\d+)日(後|前)/);
+    if (offset) {
+      const days = parseInt(offset[1], 10);
+      return relative(offset[2] === '後' ? days : -days, offset[0]);
+    }
+
+    const monthDay = text.match(/(\d{1,2})月(\d{1,2})日/);
+    if (monthDay) {
+      const target = new Date(Date.UTC(today.getUTCFullYear(), parseInt(monthDay[1], 10) - 1, parseInt(monthDay[2], 10)));
+      return classifyDate(target, today, monthDay[0]);
+    }
+
+    const weekday = text.match(/(来週の)?([日月火水木金土])曜日?/);
+    if (weekday) {
+      const days = daysUntilWeekday(today, WEEKDAYS_JA.indexOf(weekday[2]), Boolean(weekday[1]));
+      return relative(weekday[1] ? days + (days < 7 ? 7 : 0) : days, weekday[0]);
+    }
+
+    return null;
+  }
+
+  // Longer phrases first: "day after tomorrow" contains "tomorrow"
+  const enTerms: Array<[RegExp, number]> = [
+    [/\bday after tomorrow\b/, 2],
+    [/\bday before yesterday\b/, -2],
+    [/\btomorrow\b/, 1],
+    [/\byesterday\b/, -1],
+    [/\b(today|now|currently|right now|tonight|this (?:morning|afternoon|evening))\b/, 0]
+  ];
+  for (const [pattern, days] of enTerms) {
+    const match = text.match(pattern);
+    if (match) return relative(days, match[0]);
+  }
+
+  const inDays = text.match(/\bin (\d+) days?\b/);
+  if (inDays) return relative(parseInt(inDays[1], 10), inDays[0]);
+
+  const daysAgo = text.match(/\b(\d+) days? ago\b/);
+  if (daysAgo) return relative(-parseInt(daysAgo[1], 10), daysAgo[0]);
+
+  const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\.? (\\d{1,2})(?:st|nd|rd|th)?\\b`));
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH_PATTERN}\\b`));
+  if (monthFirst || dayFirst) {
+    const month = MONTHS.indexOf((monthFirst ? monthFirst[1] : dayFirst![2]).slice(0, 3));
+    const day = parseInt(monthFirst ? monthFirst[2] : dayFirst![1], 10);
+    // Dates without a year are in the current year
+    const target = new Date(Date.UTC(today.getUTCFullYear(), month, day));
+    return classifyDate(target, today, (monthFirst || dayFirst)![0]);
+  }
+
+  const weekday = text.match(/\b(next |this |on )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/);
+  if (weekday) {
+    const days = daysUntilWeekday(today, WEEKDAYS_EN.indexOf(weekday[2]), weekday[1] === 'next ');
+    return relative(days, weekday[0].trim());
+  }
+
+  return null;
+}
+
+function stripDateExpression(query: string, date: ResolvedDate | null): string {
+  if (!date) return query;
+  const index = normalizeDigits(query).toLowerCase().indexOf(date.expression);
+  return index === -1 ? query : `${query.slice(0, index)} ${query.slice(index + date.expression.length)}`;
+}
+
+function cleanLocation(candidate: string): string | null {
+  const words = candidate
+    .replace(/\b(weather|forecast|temperature|climate|please|then)\b/gi, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (words.length === 0 || words.length > 4 || NON_LOCATION_WORDS.has(words[0].toLowerCase())) {
+    return null;
+  }
+
+  return words.join(' ');
+}
+
+// Detect a place named in the query (not a date, not a pronoun)
+export function detectExplicitLocation(query: string, language: string = 'en', knownLocations: string[] = []): string | null {
+  const date = detectExplicitDate(query, language);
+  const text = stripDateExpression(normalizeDigits(query), date).trim();
+
+  // Known names match anywhere, e.g. "tokyo?" or "東京は？"
+  const lowerText = text.toLowerCase();
+  const known = knownLocations.find(name => {
+    const lowerName = name.toLowerCase();
+    return language === 'ja' ? lowerText.includes(lowerName) : new RegExp(`\\b${lowerName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lowerText);
+  });
+  if (known) return known;
+
+  if (language === 'ja') {
+    const match = text.match(/^[\s、。の]*(.+?)(?:の(?:天気|気温|気候|服装|予報|雨|様子)|は[？?]|はどう|に行|で[はの]?(?:天気|雨|晴))/);
+    if (!match) return null;
+    const candidate = match[1].replace(/^.*の/, '').trim();
+    return candidate && !/^(天気|今|それ|そこ|ここ|あそこ)$/.test(candidate) ? candidate : null;
+  }
+
+  const patterns = [
+    /\b(?:in|at|for|to|near|of)\s+([a-zÀ-ɏ][\wÀ-ɏ'.,-]*(?:\s+[\wÀ-ɏ'.,-]+){0,3}?)\s*(?:[?!.]|\s+(?:weather|tomorrow|today|yesterday|now|this|next|on|and)\b|$)/i,
+    /\b(?:how|what)\s+about\s+([a-zÀ-ɏ][\wÀ-ɏ' .,-]*?)\s*(?:[?!.]|$)/i,
+    /^\s*([a-zÀ-ɏ][\wÀ-ɏ' .-]*?)\s+(?:weather|forecast|temperature)\b/i
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const location = match ? cleanLocation(match[1].replace(/,$/, '')) : null;
+    if (location) return location;
+  }
+
+  return null;
+}
+
+// Short continuations that lean on the previous turn
+function isFollowUpQuery(query: string, language: string): boolean {
+  const text = query.trim().toLowerCase();
+
+  if (language === 'ja') {
+    return /^(じゃあ|では|それでは|それなら|で、)/.test(text) || /(は[？?]|はどう[？?]?|は？)$/.test(text) || text.length <= 8;
+  }
+
+  return /^(and|how about|what about|then|also|ok(ay)?|same)\b/.test(text) || text.split(/\s+/).length <= 3;
+}
+
+// Resolve what the query means given the session context (null for a new session)
+export function resolveContext(query: string, context: WeatherContext | null, options: ResolveOptions = {}): ContextResolution {
+  const language: ResolverLanguage = options.language === 'ja' ? 'ja' : 'en';
+  const today = options.today || new Date();
+  const recentNames = context ? context.location.recent.map(location => location.city) : [];
+
+  const explicitDate = detectExplicitDate(query, language, today);
+  const explicitLocation = detectExplicitLocation(query, language, [...recentNames, ...(options.knownLocations || [])]);
+  const isFollowUp = Boolean(context?.conversation.lastWeatherQuery) && isFollowUpQuery(query, language);
+
+  const sessionLocation = context?.location.current || null;
+  const location: ResolvedLocation | null = explicitLocation
+    ? { city: explicitLocation, source: 'query' }
+    : sessionLocation
+      ? { city: sessionLocation.city, country: sessionLocation.country, source: 'session' }
+      : null;
+
+  // A follow-up that only changes the place keeps the previous date ("how about London?")
+  let temporal: ContextResolution['temporal'];
+  if (explicitDate) {
+    temporal = { dateType: explicitDate.dateType, targetDate: explicitDate.targetDate, source: 'query' };
+  } else if (isFollowUp && context && context.temporal.currentTimeframe !== 'current') {
+    temporal = { dateType: context.temporal.currentTimeframe, targetDate: context.temporal.targetDate, source: 'session' };
+  } else {
+    temporal = { dateType: 'current', targetDate: null, source: 'default' };
+  }
+
+  let contextualQuery = query;
+  if (!explicitLocation && sessionLocation) {
+    contextualQuery = language === 'ja'
+      ? `${sessionLocation.city}の${query}`
+      : `${query} in ${sessionLocation.city}`;
+  }
+
+  return {
+    query,
+    language,
+    explicitLocation,
+    explicitDate,
+    isFollowUp,
+    location,
+    temporal,
+    needsLocationInput: !location,
+    contextualQuery
+  };
+}
+
+// Prompt block describing the resolution for the model
+export function formatResolutionForPrompt(resolution: ContextResolution): string {
+  const { location, temporal } = resolution;
+
+  return `RESOLVED CONTEXT FOR THE LATEST MESSAGE:
+- Location: ${location ? `${location.city}${location.country ? `, ${location.country}` : ''} (${location.source === 'query' ? 'stated in the message' : 'from the session'})` : 'Unknown - ask the user which location they mean'}
+- Date: ${temporal.targetDate ? `${temporal.targetDate} (${temporal.dateType})` : temporal.dateType} (${temporal.source === 'query' ? 'stated in the message' : temporal.source === 'session' ? 'carried over from the previous question' : 'default'})
+- Follow-up: ${resolution.isFollowUp ? 'yes' : 'no'}`;
+}
@@ -0,0 +1,182 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { WeatherProvider, WeatherRequest, WeatherPayload, GeocodeResult, GeocodeOptions } from './weatherProvider';
+import { celsiusToFahrenheit, kmhToMph, mmToInches, UnitSystem } from './units';
+
+// Offline provider backed by a JSON fixture file (WEATHER_PROVIDER=fixture)
+// Each fixture location holds one current snapshot, a cycle of daily values and 24 hourly values (metric),
+// plus an optional air quality snapshot and 24 hourly values.
+// Requests are answered for any date by repeating those values, so responses are deterministic.
+// "places" are geocoding-only entries without weather, e.g. to exercise ambiguous names.
+
+interface FixtureData {
+  current: Record<string, number>;
+  daily?: Record<string, number[]>;
+  hourly: Record<string, number[]>;
+}
+
+interface FixtureLocation extends GeocodeResult, FixtureData {
+  aliases?: string[];
+  timezone: string;
+  airQuality?: FixtureData;
+}
+
+interface FixtureFile {
+  locations: FixtureLocation[];
+  places?: GeocodeResult[];
+}
+
+const DEFAULT_FIXTURE_FILE = path.join(process.cwd(), 'fixtures', 'weather.json');
+const DEFAULT_FORECAST_DAYS = 7;
+const MAX_DISTANCE_DEGREES = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture';
+  private locations: FixtureLocation[];
+  private places: GeocodeResult[];
+
+  constructor(fixtureFile: string = DEFAULT_FIXTURE_FILE) {
+    const fixture: FixtureFile = JSON.parse(readFileSync(fixtureFile, 'utf-8'));
+    this.locations = fixture.locations;
+    this.places = fixture.places || [];
+    console.log(`📦 Loaded ${this.locations.length} fixture locations from ${fixtureFile}`);
+  }
+
+  async getCurrent(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.buildPayload(request);
+  }
+
+  async getDaily(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.buildPayload(request);
+  }
+
+  async getArchive(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.buildPayload(request);
+  }
+
+  async getAirQuality(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.buildPayload(request, location => location.airQuality || { current: {}, hourly: {} });
+  }
+
+  async geocode(name: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+    const query = name.toLowerCase().split(',')[0].trim();
+    const names = (location: GeocodeResult & { aliases?: string[] }) => [location.name, ...(location.aliases || [])].map(n => n.toLowerCase());
+    const locations = [...this.locations, ...this.places];
+
+    const exact = locations.filter(location => names(location).includes(query));
+    const partial = locations.filter(location =>
+      !exact.includes(location) && names(location).some(n => n.includes(query) || query.includes(n))
+    );
+
+    return [...exact, ...partial]
+      .slice(0, options.count || 1)
+      .map(({ name, country, countryCode, admin1, latitude, longitude, timezone, population }) => ({
+        name, country, countryCode, admin1, latitude, longitude, timezone, population
+      }));
+  }
+
+  private findLocation(latitude: number, longitude: number): FixtureLocation {
+    let nearest: FixtureLocation | null = null;
+    let nearestDistance = Infinity;
+
+    for (const location of this.locations) {
+      const distance = Math.hypot(location.latitude - latitude, location.longitude - longitude);
+      if (distance < nearestDistance) {
+        nearest = location;
+        nearestDistance = distance;
+      }
+    }
+
+    if (!nearest || nearestDistance > MAX_DISTANCE_DEGREES) {
+      throw new Error(`No fixture weather data near ${latitude}, ${longitude}`);
+    }
+
+    return nearest;
+  }
+
+  private buildPayload(request: WeatherRequest, select: (location: FixtureLocation) => FixtureData = location => location): WeatherPayload {
+    const location = this.findLocation(request.latitude, request.longitude);
+    const data = select(location);
+    const now = localDateTime(location.timezone);
+    const dates = dateRange(
+      request.startDate || now.slice(0, 10),
+      request.endDate,
+      request.forecastDays || DEFAULT_FORECAST_DAYS
+    );
+
+    const payload: WeatherPayload = { timezone: location.timezone };
+    const convert = (variable: string, value: number | null | undefined) => convertUnits(variable, value ?? null, request.units);
+
+    if (request.current?.length) {
+      payload.current = { time: now };
+      for (const variable of request.current) {
+        payload.current[variable] = convert(variable, data.current[variable]);
+      }
+    }
+
+    if (request.daily?.length) {
+      payload.daily = { time: dates };
+      for (const variable of request.daily) {
+        const values = data.daily?.[variable];
+        // Index by absolute day so a date gets the same values whatever range it appears in
+        payload.daily[variable] = dates.map(date => values ? convert(variable, values[dayNumber(date) % values.length]) : null);
+      }
+    }
+
+    if (request.hourly?.length) {
+      const times = dates.flatMap(date =>
+        Array.from({ length: 24 }, (_, hour) => `${date}T${hour.toString().padStart(2, '0')}:00`)
+      );
+
+      payload.hourly = { time: times };
+      for (const variable of request.hourly) {
+        const values = data.hourly[variable];
+        payload.hourly[variable] = times.map((_, index) => values ? convert(variable, values[index % 24]) : null);
+      }
+    }
+
+    return payload;
+  }
+}
+
+// Mirror Open-Meteo's unit parameters for the metric fixture values
+function convertUnits(variable: string, value: number | null, units: UnitSystem = 'metric'): number | null {
+  if (value === null || units === 'metric') {
+    return value;
+  }
+
+  if (/^(temperature|apparent_temperature|dew_point)/.test(variable)) {
+    return celsiusToFahrenheit(value);
+  }
+  if (/^wind_(speed|gusts)/.test(variable)) {
+    return kmhToMph(value);
+  }
+  if (/^(precipitation|rain|showers|snowfall)(?!_probability)/.test(variable)) {
+    return mmToInches(value);
+  }
+
+  return value;
+}
+
+// Current local time in the given timezone as YYYY-MM-DDTHH:00
+function localDateTime(timezone: string): string {
+  const local = new Date().toLocaleString('sv-SE', { timeZone: timezone });
+  return `${local.slice(0, 10)}T${local.slice(11, 13)}:00`;
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function dateRange(startDate: string, endDate: string | undefined, days: number): string[] {
+  const start = dayNumber(startDate);
+  const end = endDate ? dayNumber(endDate) : start + days - 1;
+  const dates: string[] = [];
+
+  for (let day = start; day <= end; day++) {
+    dates.push(new Date(day * DAY_MS).toISOString().split('T')[0]);
+  }
+
+  return dates;
+}
@@ -0,0 +1,152 @@
+import type { GeocodeResult } from './weatherProvider';
+import { GAZETTEER_CITIES, GAZETTEER_COUNTRIES, GazetteerCity, GazetteerCountry } from './gazetteerData';
+
+// Offline place lookup over the bundled gazetteer, tried before any remote geocoding
+// Matches English and Japanese names, aliases ("Bombay", "NYC"), country names (to their capital) and small typos
+
+export interface GazetteerMatch extends GeocodeResult {
+  ja: string;
+  match: 'name' | 'country' | 'fuzzy';
+}
+
+export interface GazetteerSearchOptions {
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MIN_FUZZY_LENGTH = 5;
+const LONG_NAME_LENGTH = 9; // Names this long allow two typos
+// Administrative suffixes in Japanese input, e.g. 大阪市, 東京都, 京都府
+const JA_SUFFIX = /(市|都|府|県|州)$/;
+
+// Lowercase, no accents or punctuation: "São Paulo" → "sao paulo", "Xi'an" → "xian", "Washington, D.C." → "washington dc"
+export function normalizePlaceName(text: string): string {
+  return text
+    .normalize('NFKC')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/[-_,/]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const countriesByCode = new Map(GAZETTEER_COUNTRIES.map(country => [country.code, country]));
+
+function namesOf(entry: { name: string; ja: string; aliases?: string[] }): string[] {
+  return [entry.name, entry.ja, ...(entry.aliases || [])].map(normalizePlaceName);
+}
+
+function buildIndex<T extends { name: string; ja: string; aliases?: string[] }>(entries: T[]): Map<string, T[]> {
+  const index = new Map<string, T[]>();
+  for (const entry of entries) {
+    for (const name of new Set(namesOf(entry))) {
+      index.set(name, [...(index.get(name) || []), entry]);
+    }
+  }
+  return index;
+}
+
+const cityIndex = buildIndex(GAZETTEER_CITIES);
+const countryIndex = buildIndex(GAZETTEER_COUNTRIES);
+
+function toMatch(city: GazetteerCity, match: GazetteerMatch['match']): GazetteerMatch {
+  return {
+    name: city.name,
+    ja: city.ja,
+    country: countriesByCode.get(city.countryCode)?.name || city.countryCode,
+    countryCode: city.countryCode,
+    admin1: city.admin1,
+    latitude: city.latitude,
+    longitude: city.longitude,
+    timezone: city.timezone,
+    population: city.population,
+    match
+  };
+}
+
+// Edit distance counting a swap of neighbours as one edit ("Dehli" → "Delhi")
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+function capitalOf(country: GazetteerCountry): GazetteerCity[] {
+  return GAZETTEER_CITIES.filter(city => city.countryCode === country.code && city.name === country.capital);
+}
+
+// Cities for one normalized name: exact names first, then a country's capital, then near-miss spellings
+function lookupName(name: string): GazetteerMatch[] {
+  const names = JA_SUFFIX.test(name) ? [name, name.replace(JA_SUFFIX, '')] : [name];
+
+  for (const candidate of names) {
+    const cities = cityIndex.get(candidate);
+    if (cities) return cities.map(city => toMatch(city, 'name'));
+
+    const countries = countryIndex.get(candidate);
+    if (countries) return countries.flatMap(capitalOf).map(city => toMatch(city, 'country'));
+  }
+
+  // Typos only for Latin names long enough not to collide with other real places
+  if (name.length < MIN_FUZZY_LENGTH || !/^[a-z ]+$/.test(name)) {
+    return [];
+  }
+
+  const maxDistance = name.length >= LONG_NAME_LENGTH ? 2 : 1;
+  let best: GazetteerCity[] = [];
+  let bestDistance = Infinity;
+  for (const [indexName, cities] of cityIndex) {
+    // Typos rarely change the first letter, while other real places often differ only there (Raipur/Jaipur)
+    if (indexName[0] !== name[0] || Math.abs(indexName.length - name.length) > maxDistance) continue;
+    const distance = editDistance(name, indexName);
+    if (distance > maxDistance) continue;
+    if (distance < bestDistance) {
+      best = cities;
+      bestDistance = distance;
+    } else if (distance === bestDistance) {
+      best = [...best, ...cities.filter(city => !best.includes(city))];
+    }
+  }
+
+  return best.map(city => toMatch(city, 'fuzzy'));
+}
+
+// "Japan", "日本", "JP" or an alias for the city's country; otherwise its region
+function matchesQualifier(match: GazetteerMatch, qualifier: string): boolean {
+  const country = countriesByCode.get(match.countryCode || '');
+  return (country ? [...namesOf(country), country.code.toLowerCase()] : []).includes(qualifier)
+    || (match.admin1 !== undefined && normalizePlaceName(match.admin1) === qualifier);
+}
+
+// Places for a free-text query ("Bombay", "東京", "Paris, France"), most populous first
+// Empty when the gazetteer does not know the place, so callers can fall back to a remote geocoder
+export function searchGazetteer(query: string, options: GazetteerSearchOptions = {}): GazetteerMatch[] {
+  const limit = options.limit || DEFAULT_LIMIT;
+  const byPopulation = (matches: GazetteerMatch[]) =>
+    matches.sort((a, b) => (b.population || 0) - (a.population || 0)).slice(0, limit);
+
+  // The whole query first, so names with commas ("Washington, D.C.") still match their alias
+  const whole = normalizePlaceName(query);
+  const exact = (cityIndex.get(whole) || []).map(city => toMatch(city, 'name'));
+  if (exact.length > 0 || !query.includes(',')) {
+    return byPopulation(exact.length > 0 ? exact : lookupName(whole));
+  }
+
+  // "City, Region/Country": keep only places matching every qualifier
+  const [name, ...qualifiers] = query.split(',').map(normalizePlaceName).filter(Boolean);
+  return byPopulation(lookupName(name || whole).filter(match => qualifiers.every(qualifier => matchesQualifier(match, qualifier))));
+}
@@ -0,0 +1,270 @@
+// Bundled place data for the offline gazetteer (see gazetteer.ts)
+// Cities of 1,000,000+ people plus every listed country's capital. Populations are city proper.
+
+export interface GazetteerCountry {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  ja: string;
+  capital: string; // Name of a city below, used for "weather in Japan"
+  aliases?: string[];
+}
+
+export interface GazetteerCity {
+  name: string;
+  ja: string;
+  countryCode: string;
+  admin1?: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  population: number;
+  aliases?: string[]; // Other spellings and former names, any language
+}
+
+export const GAZETTEER_COUNTRIES: GazetteerCountry[] = [
+  // Asia
+  { code: 'JP', name: 'Japan', ja: '日本', capital: 'Tokyo', aliases: ['Nippon', 'Nihon'] },
+  { code: 'CN', name: 'China', ja: '中国', capital: 'Beijing', aliases: ['PRC', '中華人民共和国'] },
+  { code: 'KR', name: 'South Korea', ja: '韓国', capital: 'Seoul', aliases: ['Korea', '大韓民国'] },
+  { code: 'TW', name: 'Taiwan', ja: '台湾', capital: 'Taipei' },
+  { code: 'HK', name: 'Hong Kong', ja: '香港', capital: 'Hong Kong' },
+  { code: 'IN', name: 'India', ja: 'インド', capital: 'New Delhi', aliases: ['Bharat'] },
+  { code: 'PK', name: 'Pakistan', ja: 'パキスタン', capital: 'Islamabad' },
+  { code: 'BD', name: 'Bangladesh', ja: 'バングラデシュ', capital: 'Dhaka' },
+  { code: 'NP', name: 'Nepal', ja: 'ネパール', capital: 'Kathmandu' },
+  { code: 'LK', name: 'Sri Lanka', ja: 'スリランカ', capital: 'Colombo' },
+  { code: 'TH', name: 'Thailand', ja: 'タイ', capital: 'Bangkok' },
+  { code: 'VN', name: 'Vietnam', ja: 'ベトナム', capital: 'Hanoi', aliases: ['Viet Nam'] },
+  { code: 'SG', name: 'Singapore', ja: 'シンガポール', capital: 'Singapore' },
+  { code: 'MY', name: 'Malaysia', ja: 'マレーシア', capital: 'Kuala Lumpur' },
+  { code: 'ID', name: 'Indonesia', ja: 'インドネシア', capital: 'Jakarta' },
+  { code: 'PH', name: 'Philippines', ja: 'フィリピン', capital: 'Manila' },
+  { code: 'IR', name: 'Iran', ja: 'イラン', capital: 'Tehran' },
+  { code: 'IQ', name: 'Iraq', ja: 'イラク', capital: 'Baghdad' },
+  { code: 'SA', name: 'Saudi Arabia', ja: 'サウジアラビア', capital: 'Riyadh' },
+  { code: 'AE', name: 'United Arab Emirates', ja: 'アラブ首長国連邦', capital: 'Abu Dhabi', aliases: ['UAE', 'Emirates'] },
+  { code: 'QA', name: 'Qatar', ja: 'カタール', capital: 'Doha' },
+  { code: 'IL', name: 'Israel', ja: 'イスラエル', capital: 'Jerusalem' },
+  { code: 'TR', name: 'Turkey', ja: 'トルコ', capital: 'Ankara', aliases: ['Türkiye', 'Turkiye'] },
+
+  // Europe
+  { code: 'GB', name: 'United Kingdom', ja: 'イギリス', capital: 'London', aliases: ['UK', 'Britain', 'Great Britain', 'England', '英国'] },
+  { code: 'IE', name: 'Ireland', ja: 'アイルランド', capital: 'Dublin' },
+  { code: 'FR', name: 'France', ja: 'フランス', capital: 'Paris' },
+  { code: 'DE', name: 'Germany', ja: 'ドイツ', capital: 'Berlin', aliases: ['Deutschland'] },
+  { code: 'IT', name: 'Italy', ja: 'イタリア', capital: 'Rome', aliases: ['Italia'] },
+  { code: 'ES', name: 'Spain', ja: 'スペイン', capital: 'Madrid', aliases: ['España', 'Espana'] },
+  { code: 'PT', name: 'Portugal', ja: 'ポルトガル', capital: 'Lisbon' },
+  { code: 'NL', name: 'Netherlands', ja: 'オランダ', capital: 'Amsterdam', aliases: ['Holland', 'The Netherlands'] },
+  { code: 'BE', name: 'Belgium', ja: 'ベルギー', capital: 'Brussels' },
+  { code: 'CH', name: 'Switzerland', ja: 'スイス', capital: 'Bern' },
+  { code: 'AT', name: 'Austria', ja: 'オーストリア', capital: 'Vienna' },
+  { code: 'SE', name: 'Sweden', ja: 'スウェーデン', capital: 'Stockholm' },
+  { code: 'NO', name: 'Norway', ja: 'ノルウェー', capital: 'Oslo' },
+  { code: 'DK', name: 'Denmark', ja: 'デンマーク', capital: 'Copenhagen' },
+  { code: 'FI', name: 'Finland', ja: 'フィンランド', capital: 'Helsinki' },
+  { code: 'GR', name: 'Greece', ja: 'ギリシャ', capital: 'Athens' },
+  { code: 'PL', name: 'Poland', ja: 'ポーランド', capital: 'Warsaw' },
+  { code: 'CZ', name: 'Czech Republic', ja: 'チェコ', capital: 'Prague', aliases: ['Czechia'] },
+  { code: 'HU', name: 'Hungary', ja: 'ハンガリー', capital: 'Budapest' },
+  { code: 'RO', name: 'Romania', ja: 'ルーマニア', capital: 'Bucharest' },
+  { code: 'BG', name: 'Bulgaria', ja: 'ブルガリア', capital: 'Sofia' },
+  { code: 'HR', name: 'Croatia', ja: 'クロアチア', capital: 'Zagreb' },
+  { code: 'RS', name: 'Serbia', ja: 'セルビア', capital: 'Belgrade' },
+  { code: 'UA', name: 'Ukraine', ja: 'ウクライナ', capital: 'Kyiv' },
+  { code: 'BY', name: 'Belarus', ja: 'ベラルーシ', capital: 'Minsk' },
+  { code: 'LT', name: 'Lithuania', ja: 'リトアニア', capital: 'Vilnius' },
+  { code: 'LV', name: 'Latvia', ja: 'ラトビア', capital: 'Riga' },
+  { code: 'EE', name: 'Estonia', ja: 'エストニア', capital: 'Tallinn' },
+  { code: 'RU', name: 'Russia', ja: 'ロシア', capital: 'Moscow' },
+
+  // Americas
+  { code: 'US', name: 'United States', ja: 'アメリカ', capital: 'Washington', aliases: ['USA', 'US', 'America', 'United States of America', 'アメリカ合衆国', '米国'] },
+  { code: 'CA', name: 'Canada', ja: 'カナダ', capital: 'Ottawa' },
+  { code: 'MX', name: 'Mexico', ja: 'メキシコ', capital: 'Mexico City', aliases: ['México'] },
+  { code: 'BR', name: 'Brazil', ja: 'ブラジル', capital: 'Brasília', aliases: ['Brasil'] },
+  { code: 'AR', name: 'Argentina', ja: 'アルゼンチン', capital: 'Buenos Aires' },
+  { code: 'CL', name: 'Chile', ja: 'チリ', capital: 'Santiago' },
+  { code: 'CO', name: 'Colombia', ja: 'コロンビア', capital: 'Bogotá' },
+  { code: 'PE', name: 'Peru', ja: 'ペルー', capital: 'Lima' },
+  { code: 'VE', name: 'Venezuela', ja: 'ベネズエラ', capital: 'Caracas' },
+
+  // Africa
+  { code: 'EG', name: 'Egypt', ja: 'エジプト', capital: 'Cairo' },
+  { code: 'MA', name: 'Morocco', ja: 'モロッコ', capital: 'Rabat' },
+  { code: 'NG', name: 'Nigeria', ja: 'ナイジェリア', capital: 'Abuja' },
+  { code: 'KE', name: 'Kenya', ja: 'ケニア', capital: 'Nairobi' },
+  { code: 'ZA', name: 'South Africa', ja: '南アフリカ', capital: 'Cape Town' },
+
+  // Oceania
+  { code: 'AU', name: 'Australia', ja: 'オーストラリア', capital: 'Canberra' },
+  { code: 'NZ', name: 'New Zealand', ja: 'ニュージーランド', capital: 'Wellington' }
+];
+
+export const GAZETTEER_CITIES: GazetteerCity[] = [
+  // Japan
+  { name: 'Tokyo', ja: '東京', countryCode: 'JP', admin1: 'Tokyo', latitude: 35.6762, longitude: 139.6503, timezone: 'Asia/Tokyo', population: 8336599, aliases: ['Tokio'] },
+  { name: 'Yokohama', ja: '横浜', countryCode: 'JP', admin1: 'Kanagawa', latitude: 35.4437, longitude: 139.638, timezone: 'Asia/Tokyo', population: 3757630 },
+  { name: 'Osaka', ja: '大阪', countryCode: 'JP', admin1: 'Osaka', latitude: 34.6937, longitude: 135.5023, timezone: 'Asia/Tokyo', population: 2752412 },
+  { name: 'Nagoya', ja: '名古屋', countryCode: 'JP', admin1: 'Aichi', latitude: 35.1815, longitude: 136.9066, timezone: 'Asia/Tokyo', population: 2320361 },
+  { name: 'Sapporo', ja: '札幌', countryCode: 'JP', admin1: 'Hokkaido', latitude: 43.0618, longitude: 141.3545, timezone: 'Asia/Tokyo', population: 1973395 },
+  { name: 'Fukuoka', ja: '福岡', countryCode: 'JP', admin1: 'Fukuoka', latitude: 33.5902, longitude: 130.4017, timezone: 'Asia/Tokyo', population: 1612392 },
+  { name: 'Kawasaki', ja: '川崎', countryCode: 'JP', admin1: 'Kanagawa', latitude: 35.5308, longitude: 139.7029, timezone: 'Asia/Tokyo', population: 1538262 },
+  { name: 'Kobe', ja: '神戸', countryCode: 'JP', admin1: 'Hyogo', latitude: 34.6901, longitude: 135.1955, timezone: 'Asia/Tokyo', population: 1525152 },
+  { name: 'Kyoto', ja: '京都', countryCode: 'JP', admin1: 'Kyoto', latitude: 35.0116, longitude: 135.7681, timezone: 'Asia/Tokyo', population: 1459640 },
+  { name: 'Saitama', ja: 'さいたま', countryCode: 'JP', admin1: 'Saitama', latitude: 35.8617, longitude: 139.6455, timezone: 'Asia/Tokyo', population: 1324025 },
+  { name: 'Hiroshima', ja: '広島', countryCode: 'JP', admin1: 'Hiroshima', latitude: 34.3853, longitude: 132.4553, timezone: 'Asia/Tokyo', population: 1199391 },
+  { name: 'Sendai', ja: '仙台', countryCode: 'JP', admin1: 'Miyagi', latitude: 38.2682, longitude: 140.8694, timezone: 'Asia/Tokyo', population: 1096704 },
+
+  // China, Korea, Taiwan
+  { name: 'Shanghai', ja: '上海', countryCode: 'CN', admin1: 'Shanghai', latitude: 31.2304, longitude: 121.4737, timezone: 'Asia/Shanghai', population: 24874500 },
+  { name: 'Beijing', ja: '北京', countryCode: 'CN', admin1: 'Beijing', latitude: 39.9042, longitude: 116.4074, timezone: 'Asia/Shanghai', population: 21540000, aliases: ['Peking'] },
+  { name: 'Chengdu', ja: '成都', countryCode: 'CN', admin1: 'Sichuan', latitude: 30.5728, longitude: 104.0668, timezone: 'Asia/Shanghai', population: 16330000 },
+  { name: 'Chongqing', ja: '重慶', countryCode: 'CN', admin1: 'Chongqing', latitude: 29.563, longitude: 106.5516, timezone: 'Asia/Shanghai', population: 15872000, aliases: ['Chungking'] },
+  { name: 'Tianjin', ja: '天津', countryCode: 'CN', admin1: 'Tianjin', latitude: 39.3434, longitude: 117.3616, timezone: 'Asia/Shanghai', population: 13866009 },
+  { name: 'Guangzhou', ja: '広州', countryCode: 'CN', admin1: 'Guangdong', latitude: 23.1291, longitude: 113.2644, timezone: 'Asia/Shanghai', population: 13858700, aliases: ['Canton'] },
+  { name: 'Xi\'an', ja: '西安', countryCode: 'CN', admin1: 'Shaanxi', latitude: 34.3416, longitude: 108.9398, timezone: 'Asia/Shanghai', population: 12952907 },
+  { name: 'Shenzhen', ja: '深圳', countryCode: 'CN', admin1: 'Guangdong', latitude: 22.5431, longitude: 114.0579, timezone: 'Asia/Shanghai', population: 12528300 },
+  { name: 'Wuhan', ja: '武漢', countryCode: 'CN', admin1: 'Hubei', latitude: 30.5928, longitude: 114.3055, timezone: 'Asia/Shanghai', population: 11081000 },
+  { name: 'Hangzhou', ja: '杭州', countryCode: 'CN', admin1: 'Zhejiang', latitude: 30.2741, longitude: 120.1551, timezone: 'Asia/Shanghai', population: 10360000 },
+  { name: 'Nanjing', ja: '南京', countryCode: 'CN', admin1: 'Jiangsu', latitude: 32.0603, longitude: 118.7969, timezone: 'Asia/Shanghai', population: 8505500, aliases: ['Nanking'] },
+  { name: 'Hong Kong', ja: '香港', countryCode: 'HK', latitude: 22.3193, longitude: 114.1694, timezone: 'Asia/Hong_Kong', population: 7500700, aliases: ['HK'] },
+  { name: 'Seoul', ja: 'ソウル', countryCode: 'KR', admin1: 'Seoul', latitude: 37.5665, longitude: 126.978, timezone: 'Asia/Seoul', population: 9776000 },
+  { name: 'Busan', ja: '釜山', countryCode: 'KR', admin1: 'Busan', latitude: 35.1796, longitude: 129.0756, timezone: 'Asia/Seoul', population: 3429000, aliases: ['Pusan', 'プサン'] },
+  { name: 'Incheon', ja: '仁川', countryCode: 'KR', admin1: 'Incheon', latitude: 37.4563, longitude: 126.7052, timezone: 'Asia/Seoul', population: 2957000 },
+  { name: 'Daegu', ja: '大邱', countryCode: 'KR', admin1: 'Daegu', latitude: 35.8714, longitude: 128.6014, timezone: 'Asia/Seoul', population: 2438000 },
+  { name: 'Kaohsiung', ja: '高雄', countryCode: 'TW', latitude: 22.6273, longitude: 120.3014, timezone: 'Asia/Taipei', population: 2773533 },
+  { name: 'Taipei', ja: '台北', countryCode: 'TW', latitude: 25.033, longitude: 121.5654, timezone: 'Asia/Taipei', population: 2646204 },
+
+  // South Asia
+  { name: 'Mumbai', ja: 'ムンバイ', countryCode: 'IN', admin1: 'Maharashtra', latitude: 19.076, longitude: 72.8777, timezone: 'Asia/Kolkata', population: 12691836, aliases: ['Bombay'] },
+  { name: 'Delhi', ja: 'デリー', countryCode: 'IN', admin1: 'Delhi', latitude: 28.7041, longitude: 77.1025, timezone: 'Asia/Kolkata', population: 11034555 },
+  { name: 'New Delhi', ja: 'ニューデリー', countryCode: 'IN', admin1: 'Delhi', latitude: 28.6139, longitude: 77.209, timezone: 'Asia/Kolkata', population: 249998 },
+  { name: 'Bangalore', ja: 'ベンガルール', countryCode: 'IN', admin1: 'Karnataka', latitude: 12.9716, longitude: 77.5946, timezone: 'Asia/Kolkata', population: 8443675, aliases: ['Bengaluru', 'バンガロール'] },
+  { name: 'Hyderabad', ja: 'ハイデラバード', countryCode: 'IN', admin1: 'Telangana', latitude: 17.385, longitude: 78.4867, timezone: 'Asia/Kolkata', population: 6809970 },
+  { name: 'Ahmedabad', ja: 'アーメダバード', countryCode: 'IN', admin1: 'Gujarat', latitude: 23.0225, longitude: 72.5714, timezone: 'Asia/Kolkata', population: 5570585 },
+  { name: 'Chennai', ja: 'チェンナイ', countryCode: 'IN', admin1: 'Tamil Nadu', latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata', population: 4646732, aliases: ['Madras'] },
+  { name: 'Kolkata', ja: 'コルカタ', countryCode: 'IN', admin1: 'West Bengal', latitude: 22.5726, longitude: 88.3639, timezone: 'Asia/Kolkata', population: 4496694, aliases: ['Calcutta'] },
+  { name: 'Surat', ja: 'スーラト', countryCode: 'IN', admin1: 'Gujarat', latitude: 21.1702, longitude: 72.8311, timezone: 'Asia/Kolkata', population: 4467797 },
+  { name: 'Pune', ja: 'プネー', countryCode: 'IN', admin1: 'Maharashtra', latitude: 18.5204, longitude: 73.8567, timezone: 'Asia/Kolkata', population: 3124458, aliases: ['Poona'] },
+  { name: 'Jaipur', ja: 'ジャイプル', countryCode: 'IN', admin1: 'Rajasthan', latitude: 26.9124, longitude: 75.7873, timezone: 'Asia/Kolkata', population: 3046163 },
+  { name: 'Lucknow', ja: 'ラクナウ', countryCode: 'IN', admin1: 'Uttar Pradesh', latitude: 26.8467, longitude: 80.9462, timezone: 'Asia/Kolkata', population: 2817105 },
+  { name: 'Agra', ja: 'アーグラ', countryCode: 'IN', admin1: 'Uttar Pradesh', latitude: 27.1767, longitude: 78.0081, timezone: 'Asia/Kolkata', population: 1585704 },
+  { name: 'Varanasi', ja: 'バラナシ', countryCode: 'IN', admin1: 'Uttar Pradesh', latitude: 25.3176, longitude: 82.9739, timezone: 'Asia/Kolkata', population: 1164404, aliases: ['Benares', 'Banaras', 'Kashi', 'ワーラーナシー'] },
+  { name: 'Karachi', ja: 'カラチ', countryCode: 'PK', admin1: 'Sindh', latitude: 24.8607, longitude: 67.0011, timezone: 'Asia/Karachi', population: 14910352 },
+  { name: 'Lahore', ja: 'ラホール', countryCode: 'PK', admin1: 'Punjab', latitude: 31.5204, longitude: 74.3587, timezone: 'Asia/Karachi', population: 11126285 },
+  { name: 'Islamabad', ja: 'イスラマバード', countryCode: 'PK', latitude: 33.6844, longitude: 73.0479, timezone: 'Asia/Karachi', population: 1014825 },
+  { name: 'Dhaka', ja: 'ダッカ', countryCode: 'BD', latitude: 23.8103, longitude: 90.4125, timezone: 'Asia/Dhaka', population: 10294000, aliases: ['Dacca'] },
+  { name: 'Kathmandu', ja: 'カトマンズ', countryCode: 'NP', latitude: 27.7172, longitude: 85.324, timezone: 'Asia/Kathmandu', population: 1442271 },
+  { name: 'Colombo', ja: 'コロンボ', countryCode: 'LK', latitude: 6.9271, longitude: 79.8612, timezone: 'Asia/Colombo', population: 752993 },
+
+  // Southeast Asia
+  { name: 'Bangkok', ja: 'バンコク', countryCode: 'TH', latitude: 13.7563, longitude: 100.5018, timezone: 'Asia/Bangkok', population: 10539000, aliases: ['Krung Thep'] },
+  { name: 'Ho Chi Minh City', ja: 'ホーチミン', countryCode: 'VN', latitude: 10.8231, longitude: 106.6297, timezone: 'Asia/Ho_Chi_Minh', population: 8993082, aliases: ['Ho Chi Minh', 'Saigon', 'HCMC', 'サイゴン'] },
+  { name: 'Hanoi', ja: 'ハノイ', countryCode: 'VN', latitude: 21.0278, longitude: 105.8342, timezone: 'Asia/Ho_Chi_Minh', population: 8053663, aliases: ['Ha Noi'] },
+  { name: 'Singapore', ja: 'シンガポール', countryCode: 'SG', latitude: 1.3521, longitude: 103.8198, timezone: 'Asia/Singapore', population: 5685800 },
+  { name: 'Kuala Lumpur', ja: 'クアラルンプール', countryCode: 'MY', latitude: 3.139, longitude: 101.6869, timezone: 'Asia/Kuala_Lumpur', population: 1982112, aliases: ['KL'] },
+  { name: 'Jakarta', ja: 'ジャカルタ', countryCode: 'ID', latitude: -6.2088, longitude: 106.8456, timezone: 'Asia/Jakarta', population: 10562088 },
+  { name: 'Surabaya', ja: 'スラバヤ', countryCode: 'ID', latitude: -7.2575, longitude: 112.7521, timezone: 'Asia/Jakarta', population: 2874000 },
+  { name: 'Manila', ja: 'マニラ', countryCode: 'PH', latitude: 14.5995, longitude: 120.9842, timezone: 'Asia/Manila', population: 1846513 },
+
+  // Middle East
+  { name: 'Istanbul', ja: 'イスタンブール', countryCode: 'TR', latitude: 41.0082, longitude: 28.9784, timezone: 'Europe/Istanbul', population: 15462452 },
+  { name: 'Tehran', ja: 'テヘラン', countryCode: 'IR', latitude: 35.6892, longitude: 51.389, timezone: 'Asia/Tehran', population: 8693706 },
+  { name: 'Riyadh', ja: 'リヤド', countryCode: 'SA', latitude: 24.7136, longitude: 46.6753, timezone: 'Asia/Riyadh', population: 7676654 },
+  { name: 'Baghdad', ja: 'バグダッド', countryCode: 'IQ', latitude: 33.3152, longitude: 44.3661, timezone: 'Asia/Baghdad', population: 7216000 },
+  { name: 'Ankara', ja: 'アンカラ', countryCode: 'TR', latitude: 39.9334, longitude: 32.8597, timezone: 'Europe/Istanbul', population: 5663322 },
+  { name: 'Izmir', ja: 'イズミル', countryCode: 'TR', latitude: 38.4237, longitude: 27.1428, timezone: 'Europe/Istanbul', population: 4367251 },
+  { name: 'Jeddah', ja: 'ジッダ', countryCode: 'SA', latitude: 21.4858, longitude: 39.1925, timezone: 'Asia/Riyadh', population: 3976000, aliases: ['Jidda'] },
+  { name: 'Dubai', ja: 'ドバイ', countryCode: 'AE', latitude: 25.2048, longitude: 55.2708, timezone: 'Asia/Dubai', population: 3331420 },
+  { name: 'Abu Dhabi', ja: 'アブダビ', countryCode: 'AE', latitude: 24.4539, longitude: 54.3773, timezone: 'Asia/Dubai', population: 1483000 },
+  { name: 'Doha', ja: 'ドーハ', countryCode: 'QA', latitude: 25.2854, longitude: 51.531, timezone: 'Asia/Qatar', population: 956457 },
+  { name: 'Jerusalem', ja: 'エルサレム', countryCode: 'IL', latitude: 31.7683, longitude: 35.2137, timezone: 'Asia/Jerusalem', population: 936425 },
+
+  // Europe
+  { name: 'Moscow', ja: 'モスクワ', countryCode: 'RU', latitude: 55.7558, longitude: 37.6173, timezone: 'Europe/Moscow', population: 12506468, aliases: ['Moskva'] },
+  { name: 'London', ja: 'ロンドン', countryCode: 'GB', admin1: 'England', latitude: 51.5074, longitude: -0.1278, timezone: 'Europe/London', population: 8961989 },
+  { name: 'Saint Petersburg', ja: 'サンクトペテルブルク', countryCode: 'RU', latitude: 59.9311, longitude: 30.3609, timezone: 'Europe/Moscow', population: 5351935, aliases: ['St Petersburg', 'Sankt-Peterburg'] },
+  { name: 'Berlin', ja: 'ベルリン', countryCode: 'DE', admin1: 'Berlin', latitude: 52.52, longitude: 13.405, timezone: 'Europe/Berlin', population: 3644826 },
+  { name: 'Madrid', ja: 'マドリード', countryCode: 'ES', admin1: 'Madrid', latitude: 40.4168, longitude: -3.7038, timezone: 'Europe/Madrid', population: 3223334, aliases: ['マドリッド'] },
+  { name: 'Kyiv', ja: 'キーウ', countryCode: 'UA', latitude: 50.4501, longitude: 30.5234, timezone: 'Europe/Kyiv', population: 2962180, aliases: ['Kiev', 'キエフ'] },
+  { name: 'Rome', ja: 'ローマ', countryCode: 'IT', admin1: 'Lazio', latitude: 41.9028, longitude: 12.4964, timezone: 'Europe/Rome', population: 2872800, aliases: ['Roma'] },
+  { name: 'Paris', ja: 'パリ', countryCode: 'FR', admin1: 'Île-de-France', latitude: 48.8566, longitude: 2.3522, timezone: 'Europe/Paris', population: 2138551 },
+  { name: 'Minsk', ja: 'ミンスク', countryCode: 'BY', latitude: 53.9006, longitude: 27.559, timezone: 'Europe/Minsk', population: 2009786 },
+  { name: 'Vienna', ja: 'ウィーン', countryCode: 'AT', latitude: 48.2082, longitude: 16.3738, timezone: 'Europe/Vienna', population: 1897491, aliases: ['Wien'] },
+  { name: 'Bucharest', ja: 'ブカレスト', countryCode: 'RO', latitude: 44.4268, longitude: 26.1025, timezone: 'Europe/Bucharest', population: 1883425, aliases: ['București', 'Bucuresti'] },
+  { name: 'Hamburg', ja: 'ハンブルク', countryCode: 'DE', admin1: 'Hamburg', latitude: 53.5511, longitude: 9.9937, timezone: 'Europe/Berlin', population: 1841179 },
+  { name: 'Warsaw', ja: 'ワルシャワ', countryCode: 'PL', latitude: 52.2297, longitude: 21.0122, timezone: 'Europe/Warsaw', population: 1790658, aliases: ['Warszawa'] },
+  { name: 'Budapest', ja: 'ブダペスト', countryCode: 'HU', latitude: 47.4979, longitude: 19.0402, timezone: 'Europe/Budapest', population: 1752286 },
+  { name: 'Barcelona', ja: 'バルセロナ', countryCode: 'ES', admin1: 'Catalonia', latitude: 41.3874, longitude: 2.1686, timezone: 'Europe/Madrid', population: 1620343 },
+  { name: 'Munich', ja: 'ミュンヘン', countryCode: 'DE', admin1: 'Bavaria', latitude: 48.1351, longitude: 11.582, timezone: 'Europe/Berlin', population: 1471508, aliases: ['München', 'Muenchen'] },
+  { name: 'Milan', ja: 'ミラノ', countryCode: 'IT', admin1: 'Lombardy', latitude: 45.4642, longitude: 9.19, timezone: 'Europe/Rome', population: 1396059, aliases: ['Milano'] },
+  { name: 'Prague', ja: 'プラハ', countryCode: 'CZ', latitude: 50.0755, longitude: 14.4378, timezone: 'Europe/Prague', population: 1309000, aliases: ['Praha'] },
+  { name: 'Sofia', ja: 'ソフィア', countryCode: 'BG', latitude: 42.6977, longitude: 23.3219, timezone: 'Europe/Sofia', population: 1241675 },
+  { name: 'Brussels', ja: 'ブリュッセル', countryCode: 'BE', latitude: 50.8503, longitude: 4.3517, timezone: 'Europe/Brussels', population: 1208542, aliases: ['Bruxelles', 'Brussel'] },
+  { name: 'Belgrade', ja: 'ベオグラード', countryCode: 'RS', latitude: 44.7866, longitude: 20.4489, timezone: 'Europe/Belgrade', population: 1166763, aliases: ['Beograd'] },
+  { name: 'Birmingham', ja: 'バーミンガム', countryCode: 'GB', admin1: 'England', latitude: 52.4862, longitude: -1.8904, timezone: 'Europe/London', population: 1144919 },
+  { name: 'Cologne', ja: 'ケルン', countryCode: 'DE', admin1: 'North Rhine-Westphalia', latitude: 50.9375, longitude: 6.9603, timezone: 'Europe/Berlin', population: 1085664, aliases: ['Köln', 'Koeln'] },
+  { name: 'Stockholm', ja: 'ストックホルム', countryCode: 'SE', latitude: 59.3293, longitude: 18.0686, timezone: 'Europe/Stockholm', population: 975551 },
+  { name: 'Amsterdam', ja: 'アムステルダム', countryCode: 'NL', admin1: 'North Holland', latitude: 52.3676, longitude: 4.9041, timezone: 'Europe/Amsterdam', population: 872680 },
+  { name: 'Zagreb', ja: 'ザグレブ', countryCode: 'HR', latitude: 45.815, longitude: 15.9819, timezone: 'Europe/Zagreb', population: 806341 },
+  { name: 'Copenhagen', ja: 'コペンハーゲン', countryCode: 'DK', latitude: 55.6761, longitude: 12.5683, timezone: 'Europe/Copenhagen', population: 794128, aliases: ['København', 'Kobenhavn'] },
+  { name: 'Oslo', ja: 'オスロ', countryCode: 'NO', latitude: 59.9139, longitude: 10.7522, timezone: 'Europe/Oslo', population: 697010 },
+  { name: 'Athens', ja: 'アテネ', countryCode: 'GR', latitude: 37.9838, longitude: 23.7275, timezone: 'Europe/Athens', population: 664046, aliases: ['Athina'] },
+  { name: 'Helsinki', ja: 'ヘルシンキ', countryCode: 'FI', latitude: 60.1699, longitude: 24.9384, timezone: 'Europe/Helsinki', population: 656229 },
+  { name: 'Riga', ja: 'リガ', countryCode: 'LV', latitude: 56.9496, longitude: 24.1052, timezone: 'Europe/Riga', population: 605273 },
+  { name: 'Vilnius', ja: 'ヴィリニュス', countryCode: 'LT', latitude: 54.6872, longitude: 25.2797, timezone: 'Europe/Vilnius', population: 588412 },
+  { name: 'Lisbon', ja: 'リスボン', countryCode: 'PT', latitude: 38.7223, longitude: -9.1393, timezone: 'Europe/Lisbon', population: 544851, aliases: ['Lisboa'] },
+  { name: 'Dublin', ja: 'ダブリン', countryCode: 'IE', latitude: 53.3498, longitude: -6.2603, timezone: 'Europe/Dublin', population: 544107 },
+  { name: 'Tallinn', ja: 'タリン', countryCode: 'EE', latitude: 59.437, longitude: 24.7536, timezone: 'Europe/Tallinn', population: 437619 },
+  { name: 'Bern', ja: 'ベルン', countryCode: 'CH', latitude: 46.948, longitude: 7.4474, timezone: 'Europe/Zurich', population: 133883, aliases: ['Berne'] },
+
+  // North America
+  { name: 'Mexico City', ja: 'メキシコシティ', countryCode: 'MX', latitude: 19.4326, longitude: -99.1332, timezone: 'America/Mexico_City', population: 9209944, aliases: ['CDMX', 'Ciudad de México'] },
+  { name: 'New York', ja: 'ニューヨーク', countryCode: 'US', admin1: 'New York', latitude: 40.7128, longitude: -74.006, timezone: 'America/New_York', population: 8804190, aliases: ['NYC', 'New York City', 'NY'] },
+  { name: 'Los Angeles', ja: 'ロサンゼルス', countryCode: 'US', admin1: 'California', latitude: 34.0522, longitude: -118.2437, timezone: 'America/Los_Angeles', population: 3898747, aliases: ['LA', 'ロス'] },
+  { name: 'Toronto', ja: 'トロント', countryCode: 'CA', admin1: 'Ontario', latitude: 43.6532, longitude: -79.3832, timezone: 'America/Toronto', population: 2794356 },
+  { name: 'Chicago', ja: 'シカゴ', countryCode: 'US', admin1: 'Illinois', latitude: 41.8781, longitude: -87.6298, timezone: 'America/Chicago', population: 2746388 },
+  { name: 'Houston', ja: 'ヒューストン', countryCode: 'US', admin1: 'Texas', latitude: 29.7604, longitude: -95.3698, timezone: 'America/Chicago', population: 2304580 },
+  { name: 'Montreal', ja: 'モントリオール', countryCode: 'CA', admin1: 'Quebec', latitude: 45.5017, longitude: -73.5673, timezone: 'America/Toronto', population: 1762949, aliases: ['Montréal'] },
+  { name: 'Phoenix', ja: 'フェニックス', countryCode: 'US', admin1: 'Arizona', latitude: 33.4484, longitude: -112.074, timezone: 'America/Phoenix', population: 1608139 },
+  { name: 'Philadelphia', ja: 'フィラデルフィア', countryCode: 'US', admin1: 'Pennsylvania', latitude: 39.9526, longitude: -75.1652, timezone: 'America/New_York', population: 1603797, aliases: ['Philly'] },
+  { name: 'San Antonio', ja: 'サンアントニオ', countryCode: 'US', admin1: 'Texas', latitude: 29.4241, longitude: -98.4936, timezone: 'America/Chicago', population: 1434625 },
+  { name: 'San Diego', ja: 'サンディエゴ', countryCode: 'US', admin1: 'California', latitude: 32.7157, longitude: -117.1611, timezone: 'America/Los_Angeles', population: 1386932 },
+  { name: 'Guadalajara', ja: 'グアダラハラ', countryCode: 'MX', admin1: 'Jalisco', latitude: 20.6597, longitude: -103.3496, timezone: 'America/Mexico_City', population: 1385629 },
+  { name: 'Calgary', ja: 'カルガリー', countryCode: 'CA', admin1: 'Alberta', latitude: 51.0447, longitude: -114.0719, timezone: 'America/Edmonton', population: 1306784 },
+  { name: 'Dallas', ja: 'ダラス', countryCode: 'US', admin1: 'Texas', latitude: 32.7767, longitude: -96.797, timezone: 'America/Chicago', population: 1304379 },
+  { name: 'Monterrey', ja: 'モンテレイ', countryCode: 'MX', admin1: 'Nuevo León', latitude: 25.6866, longitude: -100.3161, timezone: 'America/Monterrey', population: 1142994 },
+  { name: 'Ottawa', ja: 'オタワ', countryCode: 'CA', admin1: 'Ontario', latitude: 45.4215, longitude: -75.6972, timezone: 'America/Toronto', population: 1017449 },
+  { name: 'San Jose', ja: 'サンノゼ', countryCode: 'US', admin1: 'California', latitude: 37.3382, longitude: -121.8863, timezone: 'America/Los_Angeles', population: 1013240 },
+  { name: 'Washington', ja: 'ワシントン', countryCode: 'US', admin1: 'District of Columbia', latitude: 38.9072, longitude: -77.0369, timezone: 'America/New_York', population: 689545, aliases: ['Washington DC', 'Washington D.C.', 'DC', 'ワシントンDC'] },
+
+  // South America
+  { name: 'São Paulo', ja: 'サンパウロ', countryCode: 'BR', latitude: -23.5505, longitude: -46.6333, timezone: 'America/Sao_Paulo', population: 12325232 },
+  { name: 'Lima', ja: 'リマ', countryCode: 'PE', latitude: -12.0464, longitude: -77.0428, timezone: 'America/Lima', population: 9751717 },
+  { name: 'Bogotá', ja: 'ボゴタ', countryCode: 'CO', latitude: 4.711, longitude: -74.0721, timezone: 'America/Bogota', population: 7412566 },
+  { name: 'Rio de Janeiro', ja: 'リオデジャネイロ', countryCode: 'BR', latitude: -22.9068, longitude: -43.1729, timezone: 'America/Sao_Paulo', population: 6747815, aliases: ['Rio'] },
+  { name: 'Santiago', ja: 'サンティアゴ', countryCode: 'CL', latitude: -33.4489, longitude: -70.6693, timezone: 'America/Santiago', population: 6257516 },
+  { name: 'Buenos Aires', ja: 'ブエノスアイレス', countryCode: 'AR', latitude: -34.6037, longitude: -58.3816, timezone: 'America/Argentina/Buenos_Aires', population: 3075646 },
+  { name: 'Brasília', ja: 'ブラジリア', countryCode: 'BR', latitude: -15.7939, longitude: -47.8828, timezone: 'America/Sao_Paulo', population: 3055149 },
+  { name: 'Caracas', ja: 'カラカス', countryCode: 'VE', latitude: 10.4806, longitude: -66.9036, timezone: 'America/Caracas', population: 2082000 },
+
+  // Africa
+  { name: 'Cairo', ja: 'カイロ', countryCode: 'EG', latitude: 30.0444, longitude: 31.2357, timezone: 'Africa/Cairo', population: 9539673 },
+  { name: 'Lagos', ja: 'ラゴス', countryCode: 'NG', latitude: 6.5244, longitude: 3.3792, timezone: 'Africa/Lagos', population: 8048430 },
+  { name: 'Nairobi', ja: 'ナイロビ', countryCode: 'KE', latitude: -1.2921, longitude: 36.8219, timezone: 'Africa/Nairobi', population: 4397073 },
+  { name: 'Cape Town', ja: 'ケープタウン', countryCode: 'ZA', latitude: -33.9249, longitude: 18.4241, timezone: 'Africa/Johannesburg', population: 3433441 },
+  { name: 'Casablanca', ja: 'カサブランカ', countryCode: 'MA', latitude: 33.5731, longitude: -7.5898, timezone: 'Africa/Casablanca', population: 3359818 },
+  { name: 'Johannesburg', ja: 'ヨハネスブルグ', countryCode: 'ZA', latitude: -26.2041, longitude: 28.0473, timezone: 'Africa/Johannesburg', population: 2026469, aliases: ['Joburg'] },
+  { name: 'Abuja', ja: 'アブジャ', countryCode: 'NG', latitude: 9.0765, longitude: 7.3986, timezone: 'Africa/Lagos', population: 1235880 },
+  { name: 'Rabat', ja: 'ラバト', countryCode: 'MA', latitude: 34.0209, longitude: -6.8416, timezone: 'Africa/Casablanca', population: 577827 },
+
+  // Oceania
+  { name: 'Melbourne', ja: 'メルボルン', countryCode: 'AU', admin1: 'Victoria', latitude: -37.8136, longitude: 144.9631, timezone: 'Australia/Melbourne', population: 4917750 },
+  { name: 'Sydney', ja: 'シドニー', countryCode: 'AU', admin1: 'New South Wales', latitude: -33.8688, longitude: 151.2093, timezone: 'Australia/Sydney', population: 4627345 },
+  { name: 'Brisbane', ja: 'ブリスベン', countryCode: 'AU', admin1: 'Queensland', latitude: -27.4698, longitude: 153.0251, timezone: 'Australia/Brisbane', population: 2280000 },
+  { name: 'Perth', ja: 'パース', countryCode: 'AU', admin1: 'Western Australia', latitude: -31.9505, longitude: 115.8605, timezone: 'Australia/Perth', population: 2085973 },
+  { name: 'Auckland', ja: 'オークランド', countryCode: 'NZ', latitude: -36.8485, longitude: 174.7633, timezone: 'Pacific/Auckland', population: 1463000 },
+  { name: 'Canberra', ja: 'キャンベラ', countryCode: 'AU', admin1: 'Australian Capital Territory', latitude: -35.2809, longitude: 149.13, timezone: 'Australia/Sydney', population: 431380 },
+  { name: 'Wellington', ja: 'ウェリントン', countryCode: 'NZ', latitude: -41.2866, longitude: 174.7756, timezone: 'Pacific/Auckland', population: 215100 }
+];
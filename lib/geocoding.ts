@@ -0,0 +1,119 @@
+import { getWeatherProvider, GeocodeResult } from './weatherProvider';
+import { searchGazetteer } from './gazetteer';
+
+// Place name resolution with disambiguation
+// Looks in the bundled gazetteer first, otherwise fetches several candidates from the geocoder,
+// then ranks them by "City, Region/Country" hints, recent session locations and population.
+// When the top candidates are too close to call, the caller gets an ambiguous result to ask the user about.
+
+export interface LocationCandidate extends GeocodeResult {
+  label: string; // "Springfield, Illinois, United States" - resubmitting it resolves to this candidate
+  score: number;
+}
+
+export interface GeocodeHints {
+  recentLocations?: Array<{ latitude: number; longitude: number }>; // Session locations, most recent first
+  language?: string;
+}
+
+export interface LocationResolution {
+  location: LocationCandidate; // Best candidate, even when ambiguous
+  candidates: LocationCandidate[]; // Best first
+  ambiguous: boolean;
+}
+
+export class AmbiguousLocationError extends Error {
+  query: string;
+  candidates: LocationCandidate[];
+
+  constructor(query: string, candidates: LocationCandidate[]) {
+    super(`Location "${query}" is ambiguous: ${candidates.map(candidate => candidate.label).join(' / ')}`);
+    this.name = 'AmbiguousLocationError';
+    this.query = query;
+    this.candidates = candidates;
+  }
+}
+
+export class LocationNotFoundError extends Error {
+  query: string;
+
+  constructor(query: string) {
+    super(`Location "${query}" not found`);
+    this.name = 'LocationNotFoundError';
+    this.query = query;
+  }
+}
+
+const CANDIDATE_COUNT = 10;
+const MAX_CHOICES = 5;
+const SAME_PLACE_DEGREES = 0.5;
+const HINT_BONUS = 10;
+const RECENT_BONUS = 5;
+const EXACT_NAME_BONUS = 1;
+// Candidates within one order of magnitude of population are too close to call
+const CONFIDENT_SCORE_GAP = 1;
+
+// Common ways to write a country that the geocoder's names and codes do not cover
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'us',
+  'america': 'us',
+  'uk': 'gb',
+  'britain': 'gb',
+  'great britain': 'gb',
+  'england': 'gb',
+  'uae': 'ae'
+};
+
+function isNear(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): boolean {
+  return Math.hypot(a.latitude - b.latitude, a.longitude - b.longitude) <= SAME_PLACE_DEGREES;
+}
+
+function matchesHint(result: GeocodeResult, hint: string): boolean {
+  const code = (COUNTRY_ALIASES[hint] || hint).toUpperCase();
+  return [result.country, result.admin1].some(value => value?.toLowerCase() === hint) || result.countryCode === code;
+}
+
+export function formatCandidateLabel(result: GeocodeResult): string {
+  return Array.from(new Set([result.name, result.admin1, result.country].filter((part): part is string => !!part))).join(', ');
+}
+
+// Resolve a free-text place ("Springfield", "Paris, Texas", "Paris, USA") to ranked candidates
+export async function resolveLocation(query: string, hints: GeocodeHints = {}): Promise<LocationResolution> {
+  const [name, ...qualifiers] = query.split(',').map(part => part.trim()).filter(Boolean);
+  const qualifierHints = qualifiers.map(part => part.toLowerCase());
+
+  // Common places are answered offline; the gazetteer already applies the qualifiers
+  const local = searchGazetteer(query, { limit: CANDIDATE_COUNT });
+  const results: GeocodeResult[] = local.length > 0
+    ? local
+    : await getWeatherProvider().geocode(name || query, { count: CANDIDATE_COUNT, language: hints.language });
+  if (results.length === 0) {
+    throw new LocationNotFoundError(query);
+  }
+
+  // "Paris, Texas" only considers places that match every qualifier, when there are any
+  const hinted = results.filter(result => qualifierHints.length > 0 && qualifierHints.every(hint => matchesHint(result, hint)));
+  const pool = hinted.length > 0 ? hinted : results;
+  const recentLocations = hints.recentLocations || [];
+
+  const candidates = pool
+    .map((result): LocationCandidate => {
+      let score = Math.log10(Math.max(result.population || 1, 1));
+      if (hinted.includes(result)) score += HINT_BONUS;
+      if (recentLocations.some(recent => isNear(result, recent))) score += RECENT_BONUS;
+      if (result.name.toLowerCase() === (name || query).toLowerCase()) score += EXACT_NAME_BONUS;
+      return { ...result, label: formatCandidateLabel(result), score: Math.round(score * 100) / 100 };
+    })
+    .sort((a, b) => b.score - a.score)
+    // Drop duplicates of the same place (e.g. a city and its district)
+    .filter((candidate, index, sorted) => !sorted.slice(0, index).some(other => isNear(other, candidate) && other.name === candidate.name))
+    .slice(0, MAX_CHOICES);
+
+  const [best, runnerUp] = candidates;
+  const ambiguous = hinted.length !== 1
+    && runnerUp !== undefined
+    && best.score - runnerUp.score < CONFIDENT_SCORE_GAP;
+
+  console.log('🧭 Geocoded', `"${query}"`, '→', candidates.map(candidate => `${candidate.label} (${candidate.score})`), ambiguous ? '(ambiguous)' : '');
+  return { location: best, candidates, ambiguous };
+}
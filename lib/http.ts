@@ -0,0 +1,66 @@
+// Shared fetch helper with per-attempt timeouts and bounded retries
+
+export interface RetryOptions {
+  timeoutMs?: number;
+  retries?: number;
+  backoffMs?: number;
+  label?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 500;
+
+// Rate limits and server errors are worth another attempt, client errors are not
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Resolves with the last response (which may be non-OK); rejects only when every attempt failed to get one.
+// The timeout covers waiting for response headers, so streamed bodies can be read for as long as they last.
+export async function fetchWithRetry(url: string, init: RequestInit = {}, options: RetryOptions = {}): Promise<Response> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    backoffMs = DEFAULT_BACKOFF_MS,
+    label = 'Request'
+  } = options;
+
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const delay = backoffMs * 2 ** (attempt - 1);
+      console.log(`🔁 Retrying ${label} (attempt ${attempt + 1}/${retries + 1}) in ${delay}ms`);
+      await sleep(delay);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+
+      if (!response.ok && isRetryableStatus(response.status) && attempt < retries) {
+        console.warn(`⚠️ ${label} returned ${response.status}`);
+        lastError = new Error(`${label} error: ${response.status}`);
+        continue;
+      }
+
+      return response;
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new Error(`${label} timed out after ${timeoutMs}ms`)
+        : error;
+      console.warn(`⚠️ ${label} failed:`, lastError instanceof Error ? lastError.message : lastError);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
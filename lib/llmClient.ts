@@ -0,0 +1,195 @@
+import { fetchWithRetry } from './http';
+import { readServerSentEvents } from './chatStream';
+
+// Single client for OpenAI-compatible chat completion APIs
+// Point OPENAI_BASE_URL at a local server or a scripted mock to run without api.openai.com
+
+export interface LLMConfig {
+  apiKey: string | undefined;
+  baseURL: string;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+// A turn of the visible conversation, as clients may send it
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Keep only user and assistant turns with text from a client-supplied history;
+// client-side extras (weather payloads, ids) and other roles never reach the model
+export function sanitizeConversation(messages: unknown): ConversationMessage[] {
+  if (!Array.isArray(messages)) {
+    return [];
+  }
+
+  return messages.flatMap((message): ConversationMessage[] => {
+    const { role, content } = (message || {}) as { role?: unknown; content?: unknown };
+    return (role === 'user' || role === 'assistant') && typeof content === 'string'
+      ? [{ role, content }]
+      : [];
+  });
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
+  temperature?: number;
+  max_tokens?: number;
+  model?: string;
+}
+
+export interface ChatCompletionMessage {
+  role: 'assistant';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+}
+
+export class LLMError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-3.5-turbo';
+
+export function getLLMConfig(): LLMConfig {
+  return {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+    timeoutMs: parseInt(process.env.OPENAI_TIMEOUT_MS || '30000', 10),
+    maxRetries: parseInt(process.env.OPENAI_MAX_RETRIES || '2', 10)
+  };
+}
+
+// A custom base URL (local or mock server) may not need an API key
+export function isLLMConfigured(config: LLMConfig = getLLMConfig()): boolean {
+  return Boolean(config.apiKey) || config.baseURL !== DEFAULT_BASE_URL;
+}
+
+async function postChatCompletion(request: ChatCompletionRequest, stream: boolean): Promise<Response> {
+  const config = getLLMConfig();
+
+  if (!isLLMConfigured(config)) {
+    throw new LLMError('OpenAI API key not found');
+  }
+
+  const { model = config.model, ...body } = request;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetchWithRetry(`${config.baseURL}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ ...body, model, ...(stream ? { stream: true } : {}) })
+  }, {
+    timeoutMs: config.timeoutMs,
+    retries: config.maxRetries,
+    label: 'OpenAI API'
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('❌ OpenAI API error response:', errorText);
+    throw new LLMError(`OpenAI API error: ${response.status}`, response.status);
+  }
+
+  return response;
+}
+
+// Non-streaming completion, resolving with the first choice's message
+export async function createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionMessage> {
+  const response = await postChatCompletion(request, false);
+  const completion = await response.json();
+  return completion.choices[0].message;
+}
+
+// Streaming completion that may end in tool calls: content goes to onContent as it arrives,
+// and the assembled message (content and tool calls) is returned at the end
+export async function streamChatCompletionMessage(
+  request: ChatCompletionRequest,
+  onContent: (delta: string) => void
+): Promise<ChatCompletionMessage> {
+  let content = '';
+  const toolCalls: ChatToolCall[] = [];
+
+  for await (const delta of streamChatCompletionDeltas(request)) {
+    if (delta.content) {
+      content += delta.content;
+      onContent(delta.content);
+    }
+
+    // Tool calls arrive in fragments keyed by index; arguments are split across chunks
+    for (const fragment of delta.tool_calls || []) {
+      const toolCall = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      if (fragment.id) toolCall.id = fragment.id;
+      if (fragment.function?.name) toolCall.function.name += fragment.function.name;
+      if (fragment.function?.arguments) toolCall.function.arguments += fragment.function.arguments;
+    }
+  }
+
+  return {
+    role: 'assistant',
+    content: content || null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls.filter(Boolean) } : {})
+  };
+}
+
+interface ChatCompletionDelta {
+  content?: string | null;
+  tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+}
+
+async function* streamChatCompletionDeltas(request: ChatCompletionRequest): AsyncGenerator<ChatCompletionDelta> {
+  const response = await postChatCompletion(request, true);
+
+  if (!response.body) {
+    throw new LLMError('OpenAI API returned an empty stream');
+  }
+
+  for await (const data of readServerSentEvents(response.body)) {
+    if (data === '[DONE]') {
+      return;
+    }
+
+    const chunk = JSON.parse(data);
+    const delta = chunk.choices?.[0]?.delta;
+    if (delta) {
+      yield delta;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import type { WeatherProvider, WeatherRequest, WeatherPayload, GeocodeResult, GeocodeOptions } from './weatherProvider';
+import { getOpenMeteoUnitParams } from './units';
+import { fetchWithRetry } from './http';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+const AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+// Geocoding API response; "results" is missing when nothing matches
+interface GeocodingResponse {
+  results?: {
+    name: string;
+    country: string;
+    country_code?: string;
+    admin1?: string;
+    latitude: number;
+    longitude: number;
+    timezone?: string;
+    population?: number;
+  }[];
+}
+
+// Open-Meteo (https://open-meteo.com) - no API key required
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+  private readonly timeoutMs = parseInt(process.env.WEATHER_TIMEOUT_MS || '10000', 10);
+  private readonly maxRetries = parseInt(process.env.WEATHER_MAX_RETRIES || '2', 10);
+
+  getCurrent(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.fetchWeather(FORECAST_URL, request);
+  }
+
+  getDaily(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.fetchWeather(FORECAST_URL, request);
+  }
+
+  getArchive(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.fetchWeather(ARCHIVE_URL, request);
+  }
+
+  // Concentrations are always in μg/m³, so unit parameters are not sent
+  getAirQuality(request: WeatherRequest): Promise<WeatherPayload> {
+    return this.fetchWeather(AIR_QUALITY_URL, { ...request, units: undefined });
+  }
+
+  async geocode(name: string, options: GeocodeOptions = {}): Promise<GeocodeResult[]> {
+    const params = new URLSearchParams({
+      name,
+      count: String(options.count || 1),
+      language: options.language || 'en',
+      format: 'json'
+    });
+
+    const data = await this.fetchJson(`${GEOCODING_URL}?${params.toString()}`, 'Geocoding API') as GeocodingResponse;
+
+    return (data.results || []).map((result): GeocodeResult => ({
+      name: result.name,
+      country: result.country,
+      countryCode: result.country_code,
+      admin1: result.admin1,
+      latitude: result.latitude,
+      longitude: result.longitude,
+      timezone: result.timezone,
+      population: result.population
+    }));
+  }
+
+  private fetchWeather(baseUrl: string, request: WeatherRequest): Promise<WeatherPayload> {
+    const params = new URLSearchParams({
+      latitude: request.latitude.toString(),
+      longitude: request.longitude.toString(),
+      timezone: 'auto',
+      ...getOpenMeteoUnitParams(request.units)
+    });
+
+    if (request.startDate) params.set('start_date', request.startDate);
+    if (request.endDate) params.set('end_date', request.endDate);
+    if (request.forecastDays) params.set('forecast_days', request.forecastDays.toString());
+    if (request.current?.length) params.set('current', request.current.join(','));
+    if (request.daily?.length) params.set('daily', request.daily.join(','));
+    if (request.hourly?.length) params.set('hourly', request.hourly.join(','));
+
+    return this.fetchJson(`${baseUrl}?${params.toString()}`, 'Open-Meteo API') as Promise<WeatherPayload>;
+  }
+
+  private async fetchJson(url: string, label: string): Promise<unknown> {
+    console.log('🔗 Open-Meteo request:', url);
+    const response = await fetchWithRetry(url, {}, { timeoutMs: this.timeoutMs, retries: this.maxRetries, label });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ ${label} error:`, response.status, errorText);
+      throw new Error(`${label} error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,291 @@
+import type { WeatherToolResponse } from './weatherTools';
+import { calculateFeelsLike } from './comfortIndices';
+import { fahrenheitToCelsius, mphToKmh, inchesToMm, formatTemperature, UnitSystem } from './units';
+
+// Deterministic outfit rules driven by weather data
+// The formatting prompt and the UI both use this result so advice stays consistent between turns
+
+export type OutfitLanguage = 'en' | 'ja';
+export type TemperatureBand = 'hot' | 'warm' | 'mild' | 'cool' | 'cold' | 'freezing';
+
+export interface OutfitItem {
+  id: string;
+  label: string;
+}
+
+// Always metric, whatever units the weather data came in
+export interface OutfitConditions {
+  temperature: number; // Temperature the outfit is chosen for (coldest part of a range)
+  feelsLike: number;
+  maxTemperature: number;
+  precipitation: number; // mm
+  precipitationProbability: number | null; // %, from hourly data when available
+  windSpeed: number; // km/h
+  uvIndex: number;
+  humidity: number;
+}
+
+export interface OutfitRecommendation {
+  city: string;
+  units: UnitSystem; // Display units for the conditions
+  band: TemperatureBand;
+  conditions: OutfitConditions;
+  layers: {
+    base: OutfitItem;
+    mid: OutfitItem | null;
+    outer: OutfitItem | null;
+  };
+  footwear: OutfitItem;
+  accessories: OutfitItem[];
+  notes: string[];
+}
+
+export interface OutfitOptions {
+  language?: string;
+  activity?: 'casual' | 'commute' | 'outdoor';
+}
+
+const ITEM_LABELS: Record<string, { en: string; ja: string }> = {
+  tank_top: { en: 'Breathable tank top or linen shirt', ja: '通気性の良いタンクトップかリネンシャツ' },
+  t_shirt: { en: 'T-shirt', ja: 'Tシャツ' },
+  long_sleeve: { en: 'Long-sleeve shirt', ja: '長袖シャツ' },
+  thermal: { en: 'Thermal base layer', ja: '保温インナー' },
+  light_cardigan: { en: 'Light cardigan', ja: '薄手のカーディガン' },
+  sweater: { en: 'Sweater or fleece', ja: 'セーターかフリース' },
+  heavy_sweater: { en: 'Thick wool sweater', ja: '厚手のウールセーター' },
+  light_jacket: { en: 'Light jacket', ja: '薄手のジャケット' },
+  windbreaker: { en: 'Windbreaker', ja: 'ウインドブレーカー' },
+  rain_jacket: { en: 'Waterproof rain jacket', ja: '防水レインジャケット' },
+  coat: { en: 'Warm coat', ja: '暖かいコート' },
+  down_jacket: { en: 'Insulated down jacket', ja: 'ダウンジャケット' },
+  sandals: { en: 'Sandals', ja: 'サンダル' },
+  sneakers: { en: 'Sneakers', ja: 'スニーカー' },
+  waterproof_shoes: { en: 'Waterproof shoes', ja: '防水シューズ' },
+  boots: { en: 'Insulated boots', ja: '防寒ブーツ' },
+  umbrella: { en: 'Umbrella', ja: '傘' },
+  folding_umbrella: { en: 'Folding umbrella, just in case', ja: '念のため折りたたみ傘' },
+  sunscreen: { en: 'Sunscreen', ja: '日焼け止め' },
+  sunglasses: { en: 'Sunglasses', ja: 'サングラス' },
+  hat: { en: 'Sun hat', ja: '帽子' },
+  scarf: { en: 'Scarf', ja: 'マフラー' },
+  gloves: { en: 'Gloves', ja: '手袋' },
+  beanie: { en: 'Knit hat', ja: 'ニット帽' },
+  water_bottle: { en: 'Water bottle', ja: '水筒' }
+};
+
+const NOTE_LABELS: Record<string, { en: string; ja: string }> = {
+  layers: { en: 'Large temperature swing - dress in layers you can remove', ja: '寒暖差が大きいので脱ぎ着しやすい重ね着を' },
+  wind: { en: 'Strong wind makes it feel colder than the thermometer says', ja: '風が強く、気温より寒く感じます' },
+  heat: { en: 'High heat and humidity - stay hydrated and avoid dark colours', ja: '蒸し暑いので水分補給を心がけ、濃い色の服は避けましょう' },
+  uv: { en: 'Very high UV - cover up around midday', ja: '紫外線が非常に強いので日中は肌を覆いましょう' }
+};
+
+// Celsius thresholds for the feels-like temperature
+const BANDS: Array<[TemperatureBand, number]> = [
+  ['hot', 28],
+  ['warm', 22],
+  ['mild', 16],
+  ['cool', 10],
+  ['cold', 0]
+];
+
+function label(id: string, language: OutfitLanguage): OutfitItem {
+  return { id, label: ITEM_LABELS[id][language] };
+}
+
+function note(id: string, language: OutfitLanguage): string {
+  return NOTE_LABELS[id][language];
+}
+
+// Collapse current, range and hourly responses into the values the rules need
+export function getOutfitConditions(weather: WeatherToolResponse): OutfitConditions {
+  // Work in metric so the thresholds below hold for imperial data too
+  if (weather.units === 'imperial') {
+    return getOutfitConditions(toMetric(weather));
+  }
+
+  let temperature = weather.temperatureMin ?? weather.temperature;
+  let maxTemperature = weather.temperatureMax ?? weather.temperature;
+  let precipitation = weather.precipitation;
+  let precipitationProbability: number | null = null;
+  let windSpeed = weather.windSpeed;
+  let uvIndex = weather.uvIndex;
+  let apparentTemperatures: number[] = weather.comfort ? [weather.comfort.apparentTemperature] : [];
+
+  if (weather.daily && weather.daily.length > 0) {
+    precipitation = Math.max(...weather.daily.map(day => day.precipitation));
+    windSpeed = Math.max(...weather.daily.map(day => day.windSpeed));
+    uvIndex = Math.max(...weather.daily.map(day => day.uvIndex));
+    apparentTemperatures = weather.daily
+      .map(day => day.apparentTemperatureMin)
+      .filter((value): value is number => value !== null);
+  }
+
+  // Hourly slices describe exactly when the user will be outside
+  if (weather.hourly && weather.hourly.length > 0) {
+    temperature = Math.min(...weather.hourly.map(hour => hour.temperature));
+    maxTemperature = Math.max(...weather.hourly.map(hour => hour.temperature));
+    precipitation = weather.hourly.reduce((total, hour) => total + hour.precipitation, 0);
+    windSpeed = Math.max(...weather.hourly.map(hour => hour.windSpeed));
+
+    const probabilities = weather.hourly
+      .map(hour => hour.precipitationProbability)
+      .filter((value): value is number => value !== null);
+    precipitationProbability = probabilities.length > 0 ? Math.max(...probabilities) : null;
+    apparentTemperatures = weather.hourly
+      .map(hour => hour.apparentTemperature)
+      .filter((value): value is number => value !== null);
+  }
+
+  // Prefer the provider's apparent temperature, fall back to the calculated one
+  const feelsLike = apparentTemperatures.length > 0
+    ? Math.min(...apparentTemperatures)
+    : calculateFeelsLike(temperature, weather.humidity, windSpeed);
+
+  return {
+    temperature,
+    feelsLike,
+    maxTemperature,
+    precipitation,
+    precipitationProbability,
+    windSpeed,
+    uvIndex,
+    humidity: weather.humidity
+  };
+}
+
+function toMetric(weather: WeatherToolResponse): WeatherToolResponse {
+  const temperature = (value: number) => fahrenheitToCelsius(value);
+  const optionalTemperature = (value: number | null) => value === null ? null : fahrenheitToCelsius(value);
+
+  return {
+    ...weather,
+    units: 'metric',
+    temperature: temperature(weather.temperature),
+    temperatureMax: weather.temperatureMax !== undefined ? temperature(weather.temperatureMax) : undefined,
+    temperatureMin: weather.temperatureMin !== undefined ? temperature(weather.temperatureMin) : undefined,
+    windSpeed: mphToKmh(weather.windSpeed),
+    precipitation: inchesToMm(weather.precipitation),
+    comfort: weather.comfort && {
+      ...weather.comfort,
+      apparentTemperature: temperature(weather.comfort.apparentTemperature)
+    },
+    daily: weather.daily?.map(day => ({
+      ...day,
+      temperatureMax: temperature(day.temperatureMax),
+      temperatureMin: temperature(day.temperatureMin),
+      apparentTemperatureMax: optionalTemperature(day.apparentTemperatureMax),
+      apparentTemperatureMin: optionalTemperature(day.apparentTemperatureMin),
+      windSpeed: mphToKmh(day.windSpeed),
+      precipitation: inchesToMm(day.precipitation)
+    })),
+    hourly: weather.hourly?.map(hour => ({
+      ...hour,
+      temperature: temperature(hour.temperature),
+      apparentTemperature: optionalTemperature(hour.apparentTemperature),
+      windSpeed: mphToKmh(hour.windSpeed),
+      precipitation: inchesToMm(hour.precipitation)
+    }))
+  };
+}
+
+export function getTemperatureBand(feelsLike: number): TemperatureBand {
+  const band = BANDS.find(([, minimum]) => feelsLike >= minimum);
+  return band ? band[0] : 'freezing';
+}
+
+export function recommendOutfit(weather: WeatherToolResponse, options: OutfitOptions = {}): OutfitRecommendation {
+  const language: OutfitLanguage = options.language === 'ja' ? 'ja' : 'en';
+  const conditions = getOutfitConditions(weather);
+  const band = getTemperatureBand(conditions.feelsLike);
+
+  const isWet = conditions.precipitation >= 1 || (conditions.precipitationProbability ?? 0) >= 60;
+  const mightRain = !isWet && (conditions.precipitation > 0 || (conditions.precipitationProbability ?? 0) >= 30);
+  const isWindy = conditions.windSpeed >= 30;
+
+  const baseByBand: Record<TemperatureBand, string> = {
+    hot: 'tank_top',
+    warm: 't_shirt',
+    mild: 'long_sleeve',
+    cool: 'long_sleeve',
+    cold: 'thermal',
+    freezing: 'thermal'
+  };
+  const midByBand: Record<TemperatureBand, string | null> = {
+    hot: null,
+    warm: null,
+    mild: 'light_cardigan',
+    cool: 'sweater',
+    cold: 'sweater',
+    freezing: 'heavy_sweater'
+  };
+  const outerByBand: Record<TemperatureBand, string | null> = {
+    hot: null,
+    warm: null,
+    mild: null,
+    cool: 'light_jacket',
+    cold: 'coat',
+    freezing: 'down_jacket'
+  };
+
+  // Rain and wind upgrade the outer layer only when no warmer one is needed
+  let outer = outerByBand[band];
+  if (isWet && (outer === null || outer === 'light_jacket')) {
+    outer = 'rain_jacket';
+  } else if (isWindy && outer === null) {
+    outer = 'windbreaker';
+  }
+
+  let footwear = band === 'hot' && options.activity !== 'outdoor' ? 'sandals' : 'sneakers';
+  if (isWet) {
+    footwear = 'waterproof_shoes';
+  }
+  if (band === 'freezing') {
+    footwear = 'boots';
+  }
+
+  const accessories: string[] = [];
+  if (isWet) accessories.push('umbrella');
+  if (mightRain) accessories.push('folding_umbrella');
+  if (conditions.uvIndex >= 3) accessories.push('sunscreen');
+  if (conditions.uvIndex >= 6) accessories.push('sunglasses', 'hat');
+  if (band === 'cold' || band === 'freezing') accessories.push('scarf', 'gloves');
+  if (band === 'freezing') accessories.push('beanie');
+  if (band === 'hot') accessories.push('water_bottle');
+
+  const notes: string[] = [];
+  if (conditions.maxTemperature - conditions.temperature >= 8) notes.push(note('layers', language));
+  if (isWindy && conditions.feelsLike < conditions.temperature) notes.push(note('wind', language));
+  if (band === 'hot' && conditions.humidity >= 60) notes.push(note('heat', language));
+  if (conditions.uvIndex >= 8) notes.push(note('uv', language));
+
+  const mid = midByBand[band];
+
+  return {
+    city: weather.city,
+    units: weather.units || 'metric',
+    band,
+    conditions,
+    layers: {
+      base: label(baseByBand[band], language),
+      mid: mid ? label(mid, language) : null,
+      outer: outer ? label(outer, language) : null
+    },
+    footwear: label(footwear, language),
+    accessories: accessories.map(id => label(id, language)),
+    notes
+  };
+}
+
+// Compact block for the formatting prompt
+export function formatOutfitForPrompt(outfit: OutfitRecommendation): string {
+  const layers = [outfit.layers.base, outfit.layers.mid, outfit.layers.outer]
+    .filter((item): item is OutfitItem => item !== null)
+    .map(item => item.label)
+    .join(' + ');
+
+  return `${outfit.city} (feels like ${formatTemperature(outfit.conditions.feelsLike, outfit.units)}, ${outfit.band}):
+- Layers: ${layers}
+- Footwear: ${outfit.footwear.label}
+- Accessories: ${outfit.accessories.map(item => item.label).join(', ') || 'none'}${outfit.notes.length > 0 ? `\n- Notes: ${outfit.notes.join('; ')}` : ''}`;
+}
@@ -1,4 +1,6 @@
 import { WeatherContext, LocationData, TemporalContext, ConversationContext } from './contextManager';
+import { createSessionStorageAdapter, SessionStorageAdapter } from './sessionStorage';
+import { resolveContext, ContextResolution } from './contextResolver';
 
 // Session-based context management for proper client-server sync
 export interface WeatherSession {
@@ -8,16 +10,19 @@ export interface WeatherSession {
   expiresAt: Date;
 }
 
-// In-memory session store (in production, use Redis or database)
+// Session store backed by a pluggable storage adapter (see sessionStorage.ts)
 class SessionStore {
-  private sessions = new Map<string, WeatherSession>();
   private readonly SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
 
+  constructor(private readonly storage: SessionStorageAdapter) {
+    console.log('🗄️ Using session storage:', storage.name);
+  }
+
   generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  createSession(initialContext?: Partial<WeatherContext>): WeatherSession {
+  async createSession(initialContext?: Partial<WeatherContext>): Promise<WeatherSession> {
     const sessionId = this.generateSessionId();
     const now = new Date();
     
@@ -57,13 +62,13 @@ class SessionStore {
       expiresAt: new Date(now.getTime() + this.SESSION_TIMEOUT)
     };
 
-    this.sessions.set(sessionId, session);
+    await this.storage.set(session);
     console.log('🆕 Created new session:', sessionId);
     return session;
   }
 
-  getSession(sessionId: string): WeatherSession | null {
-    const session = this.sessions.get(sessionId);
+  async getSession(sessionId: string): Promise<WeatherSession | null> {
+    const session = await this.storage.get(sessionId);
     
     if (!session) {
       console.log('❌ Session not found:', sessionId);
@@ -73,15 +78,15 @@ class SessionStore {
     // Check if session is expired
     if (new Date() > session.expiresAt) {
       console.log('⏰ Session expired:', sessionId);
-      this.sessions.delete(sessionId);
+      await this.storage.delete(sessionId);
       return null;
     }
 
     return session;
   }
 
-  updateSession(sessionId: string, updates: Partial<WeatherContext>): WeatherSession | null {
-    const session = this.getSession(sessionId);
+  async updateSession(sessionId: string, updates: Partial<WeatherContext>): Promise<WeatherSession | null> {
+    const session = await this.getSession(sessionId);
     
     if (!session) {
       return null;
@@ -101,12 +106,13 @@ class SessionStore {
     session.lastActivity = new Date();
     session.expiresAt = new Date(Date.now() + this.SESSION_TIMEOUT);
 
+    await this.storage.set(session);
     console.log('🔄 Updated session:', sessionId);
     return session;
   }
 
-  updateLocation(sessionId: string, location: LocationData): WeatherSession | null {
-    const session = this.getSession(sessionId);
+  async updateLocation(sessionId: string, location: LocationData): Promise<WeatherSession | null> {
+    const session = await this.getSession(sessionId);
     
     if (!session) {
       return null;
@@ -129,8 +135,8 @@ class SessionStore {
     return this.updateSession(sessionId, updatedContext);
   }
 
-  updateTemporal(sessionId: string, timeframe: TemporalContext['currentTimeframe'], targetDate?: string): WeatherSession | null {
-    const session = this.getSession(sessionId);
+  async updateTemporal(sessionId: string, timeframe: TemporalContext['currentTimeframe'], targetDate?: string): Promise<WeatherSession | null> {
+    const session = await this.getSession(sessionId);
     
     if (!session) {
       return null;
@@ -150,8 +156,8 @@ class SessionStore {
     return this.updateSession(sessionId, updatedContext);
   }
 
-  updateConversation(sessionId: string, query: string, intent: ConversationContext['queryIntent']): WeatherSession | null {
-    const session = this.getSession(sessionId);
+  async updateConversation(sessionId: string, query: string, intent: ConversationContext['queryIntent'], lastResponse?: string): Promise<WeatherSession | null> {
+    const session = await this.getSession(sessionId);
     
     if (!session) {
       return null;
@@ -169,7 +175,8 @@ class SessionStore {
             value: intent,
             timestamp: new Date().toISOString()
           }
-        ].slice(-20) // Keep only last 20 flow items
+        ].slice(-20), // Keep only last 20 flow items
+        lastResponse
       }
     };
 
@@ -177,13 +184,13 @@ class SessionStore {
   }
 
   // Cleanup expired sessions
-  cleanup(): void {
+  async cleanup(): Promise<void> {
     const now = new Date();
     let cleanedCount = 0;
 
-    for (const [sessionId, session] of this.sessions.entries()) {
+    for (const session of await this.storage.list()) {
       if (now > session.expiresAt) {
-        this.sessions.delete(sessionId);
+        await this.storage.delete(session.sessionId);
         cleanedCount++;
       }
     }
@@ -194,83 +201,70 @@ class SessionStore {
   }
 
   // Get session stats
-  getStats(): { totalSessions: number; activeSessions: number } {
+  async getStats(): Promise<{ totalSessions: number; activeSessions: number }> {
     const now = new Date();
+    const sessions = await this.storage.list();
     let activeSessions = 0;
 
-    for (const session of this.sessions.values()) {
+    for (const session of sessions) {
       if (now <= session.expiresAt) {
         activeSessions++;
       }
     }
 
     return {
-      totalSessions: this.sessions.size,
+      totalSessions: sessions.length,
       activeSessions
     };
   }
 }
 
 // Singleton session store
-export const sessionStore = new SessionStore();
+export const sessionStore = new SessionStore(createSessionStorageAdapter());
 
 // Cleanup expired sessions every hour
 if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    sessionStore.cleanup();
+  const cleanupTimer = setInterval(() => {
+    sessionStore.cleanup().catch(error => console.error('❌ Session cleanup failed:', error));
   }, 60 * 60 * 1000);
+  // The timer alone should not keep scripts and tests running
+  cleanupTimer.unref?.();
+}
+
+// Cookie carrying the session id between requests
+export const SESSION_COOKIE = 'weather_session';
+
+// Secure in production and whenever the request came over HTTPS
+export function buildSessionCookie(sessionId: string, overHttps = false): string {
+  const secure = overHttps || process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${24 * 60 * 60}${secure}`;
 }
 
-// Context resolution with session
-export function resolveContextWithSession(
-  sessionId: string, 
-  query: string, 
+// Context summary for AI prompts
+export function getSessionContextSummary(context: WeatherContext): string {
+  return `Current Context:
+- Location: ${context.location.current ? `${context.location.current.city}, ${context.location.current.country}` : 'Not set'}
+- Timeframe: ${context.temporal.currentTimeframe}${context.temporal.targetDate ? ` (${context.temporal.targetDate})` : ''}
+- Last Query: ${context.conversation.lastWeatherQuery || 'None'}
+- Intent: ${context.conversation.queryIntent}
+- Recent Locations: ${context.location.recent.slice(0, 3).map(l => l.city).join(', ') || 'None'}
+- Session: ${context.session.messageCount} messages`;
+}
+
+// Context resolution with session (see contextResolver.ts for the rules)
+export async function resolveContextWithSession(
+  sessionId: string,
+  query: string,
   language: string = 'en'
-): {
-  session: WeatherSession | null;
-  needsLocationInput: boolean;
-  needsTimeInput: boolean;
-  contextualQuery: string;
-} {
-  const session = sessionStore.getSession(sessionId);
-  
-  // Check for basic location indicators (not exhaustive - let OpenAI handle the heavy lifting)
-  const hasLocationIndicators = language === 'ja'
-    ? /の天気|で|に/.test(query) || query.length > 10 // Japanese location patterns or longer queries
-    : /in |at |for |weather/.test(query.toLowerCase()) || query.length > 10; // English patterns or longer queries
-
-  console.log('🔍 Checking for location indicators in query:', query);
-  console.log('🔍 Has location indicators:', hasLocationIndicators);
-  
-  if (!session) {
-    // For new sessions, be more permissive - let OpenAI determine if location is present
-    // Only ask for location if query is very short and has no location indicators
-    const needsLocationInput = !hasLocationIndicators && query.trim().length < 8;
-    return {
-      session: null,
-      needsLocationInput,
-      needsTimeInput: false,
-      contextualQuery: query
-    };
-  }
+): Promise<ContextResolution & { session: WeatherSession | null }> {
+  const session = await sessionStore.getSession(sessionId);
+  const resolution = resolveContext(query, session ? session.context : null, { language });
 
-  const context = session.context;
-  // For existing sessions, only need location input if no indicators AND no stored location
-  const needsLocationInput = !hasLocationIndicators && !context.location.current;
-  const needsTimeInput = false; // Default to current time
-
-  // Create enhanced query with context
-  let contextualQuery = query;
-  if (!hasExplicitLocation && context.location.current) {
-    contextualQuery = language === 'ja' 
-      ? `${context.location.current.city}の${query}`
-      : `${query} in ${context.location.current.city}`;
-  }
+  console.log('🔍 Resolved context:', {
+    location: resolution.location?.city || null,
+    date: resolution.temporal.targetDate || resolution.temporal.dateType,
+    followUp: resolution.isFollowUp
+  });
 
-  return {
-    session,
-    needsLocationInput,
-    needsTimeInput,
-    contextualQuery
-  };
+  return { ...resolution, session };
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WeatherSession } from './sessionContext';
+
+// Storage backends for server-side weather sessions
+
+export interface SessionStorageAdapter {
+  readonly name: string;
+  get(sessionId: string): Promise<WeatherSession | null>;
+  set(session: WeatherSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  list(): Promise<WeatherSession[]>;
+}
+
+// Lost on restart and not shared between serverless instances
+export class MemorySessionAdapter implements SessionStorageAdapter {
+  readonly name = 'memory';
+  private sessions = new Map<string, WeatherSession>();
+
+  async get(sessionId: string): Promise<WeatherSession | null> {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  async set(session: WeatherSession): Promise<void> {
+    this.sessions.set(session.sessionId, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<WeatherSession[]> {
+    return Array.from(this.sessions.values());
+  }
+}
+
+// One JSON file per session, survives restarts and can live on a shared volume
+export class FileSessionAdapter implements SessionStorageAdapter {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async get(sessionId: string): Promise<WeatherSession | null> {
+    try {
+      const raw = await fs.readFile(this.filePath(sessionId), 'utf-8');
+      return reviveSession(JSON.parse(raw));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(session: WeatherSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so concurrent readers never see a partial file
+    const filePath = this.filePath(session.sessionId);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(session), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.rm(this.filePath(sessionId), { force: true });
+  }
+
+  async list(): Promise<WeatherSession[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const sessions = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.get(file.slice(0, -'.json'.length)))
+    );
+
+    return sessions.filter((session): session is WeatherSession => session !== null);
+  }
+
+  private filePath(sessionId: string): string {
+    // Session ids come from cookies, so keep them from escaping the directory
+    const safeId = sessionId.replace(/[^a-zA-Z0-9_-]/g, '');
+    return path.join(this.directory, `${safeId}.json`);
+  }
+}
+
+function reviveSession(raw: WeatherSession): WeatherSession {
+  return {
+    ...raw,
+    lastActivity: new Date(raw.lastActivity),
+    expiresAt: new Date(raw.expiresAt)
+  };
+}
+
+// Select the adapter from SESSION_STORE ("memory" by default, "file" for persistence)
+export function createSessionStorageAdapter(): SessionStorageAdapter {
+  const storeName = process.env.SESSION_STORE || 'memory';
+
+  switch (storeName) {
+    case 'file':
+      return new FileSessionAdapter(process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.sessions'));
+    case 'memory':
+      return new MemorySessionAdapter();
+    default:
+      throw new Error(`Unknown session store: ${storeName}`);
+  }
+}
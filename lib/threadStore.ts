@@ -0,0 +1,146 @@
+import type { WeatherToolResponse } from './weatherTools';
+import type { OutfitRecommendation } from './outfitRecommendation';
+import type { TripPlan } from './tripPlanner';
+import type { LocationCandidate } from './geocoding';
+
+// Client-side persistence for chat threads (IndexedDB)
+// Each thread keeps its messages together with the weather data attached to them
+
+export interface ChatThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  weather?: { weatherData: WeatherToolResponse[]; multiCity: boolean };
+  outfits?: OutfitRecommendation[];
+  trip?: TripPlan;
+  disambiguation?: { query: string; candidates: LocationCandidate[] };
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatThreadMessage[];
+}
+
+export type ChatThreadSummary = Omit<ChatThread, 'messages'> & { messageCount: number };
+
+const DB_NAME = 'weather-chat';
+const DB_VERSION = 1;
+const STORE_NAME = 'threads';
+const MAX_TITLE_LENGTH = 40;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Title from the first user message, trimmed to fit the sidebar
+export function createThreadTitle(messages: ChatThreadMessage[]): string {
+  const firstQuestion = messages.find(message => message.role === 'user')?.content.trim() || '';
+  return firstQuestion.length > MAX_TITLE_LENGTH
+    ? `${firstQuestion.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : firstQuestion;
+}
+
+export function generateThreadId(): string {
+  return `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+class ThreadStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    return promisifyRequest(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  }
+
+  // Most recently updated first
+  async listThreads(): Promise<ChatThreadSummary[]> {
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    const threads = await this.withStore<ChatThread[]>('readonly', store => store.getAll());
+    return threads
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(({ messages, ...thread }) => ({ ...thread, messageCount: messages.length }));
+  }
+
+  async getThread(threadId: string): Promise<ChatThread | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    const thread = await this.withStore<ChatThread | undefined>('readonly', store => store.get(threadId));
+    return thread || null;
+  }
+
+  // Create or replace a thread's messages, keeping a renamed title
+  async saveMessages(threadId: string, messages: ChatThreadMessage[]): Promise<ChatThread | null> {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    const existing = await this.getThread(threadId);
+    const now = new Date().toISOString();
+    const thread: ChatThread = {
+      id: threadId,
+      title: existing?.title || createThreadTitle(messages),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      messages
+    };
+
+    await this.withStore('readwrite', store => store.put(thread));
+    console.log('💾 Saved chat thread:', threadId, `(${messages.length} messages)`);
+    return thread;
+  }
+
+  async renameThread(threadId: string, title: string): Promise<void> {
+    const thread = await this.getThread(threadId);
+    if (!thread) {
+      return;
+    }
+
+    await this.withStore('readwrite', store => store.put({ ...thread, title: title.trim() || thread.title }));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    if (!this.isAvailable()) {
+      return;
+    }
+
+    await this.withStore('readwrite', store => store.delete(threadId));
+    console.log('🗑️ Deleted chat thread:', threadId);
+  }
+}
+
+export const threadStore = new ThreadStore();
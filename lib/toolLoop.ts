@@ -0,0 +1,126 @@
+import type { ChatMessage, ChatCompletionMessage, ChatToolCall } from './llmClient';
+
+// Bounded tool-calling loop: call the model, run the tools it asks for, send the results back,
+// and repeat until it answers without tools. Lets the model look at results and follow up
+// (e.g. fetch tomorrow after seeing rain today) within a fixed budget of steps and calls.
+
+export interface ToolLoopLimits {
+  maxSteps: number; // Model calls, including the one that answers
+  maxToolCallsPerStep: number;
+}
+
+export type ToolOutcome<T> = PromiseSettledResult<T> & { toolCall: ChatToolCall };
+
+// What happened in one model call, sent to the client for debugging
+export interface ToolLoopStep {
+  step: number;
+  durationMs: number;
+  toolCalls: Array<{
+    name: string;
+    arguments: string;
+    status: 'ok' | 'error' | 'skipped';
+    error?: string;
+  }>;
+}
+
+export interface ToolLoopOptions<T> {
+  // One model call; on the final step tools must not be offered so the model has to answer
+  complete: (conversation: ChatMessage[], context: { step: number; final: boolean }) => Promise<ChatCompletionMessage>;
+  execute: (toolCall: ChatToolCall) => Promise<T>;
+  // What the model sees for a successful call (the whole value as JSON by default)
+  serialize?: (value: T) => string;
+  // What the model sees for a failed call ({ "error": message } by default)
+  serializeError?: (error: unknown, toolCall: ChatToolCall) => string;
+  // Runs after each step's tools; return true to stop without another model call (e.g. to ask the user)
+  onToolResults?: (outcomes: ToolOutcome<T>[]) => Promise<boolean | void>;
+  limits?: Partial<ToolLoopLimits>;
+}
+
+export interface ToolLoopResult<T> {
+  message: ChatCompletionMessage; // The final answer, or the last tool call message when stopped early
+  conversation: ChatMessage[]; // Assistant tool calls and tool results added by the loop
+  outcomes: ToolOutcome<T>[]; // Every executed tool call, in order
+  steps: ToolLoopStep[];
+  stoppedEarly: boolean;
+}
+
+export const DEFAULT_TOOL_LOOP_LIMITS: ToolLoopLimits = {
+  maxSteps: parseInt(process.env.TOOL_LOOP_MAX_STEPS || '4', 10),
+  maxToolCallsPerStep: parseInt(process.env.TOOL_LOOP_MAX_CALLS_PER_STEP || '8', 10)
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function runToolLoop<T>(options: ToolLoopOptions<T>): Promise<ToolLoopResult<T>> {
+  const {
+    complete,
+    execute,
+    serialize = value => JSON.stringify(value),
+    serializeError = error => JSON.stringify({ error: errorMessage(error) }),
+    onToolResults
+  } = options;
+  const { maxSteps, maxToolCallsPerStep } = { ...DEFAULT_TOOL_LOOP_LIMITS, ...options.limits };
+
+  const conversation: ChatMessage[] = [];
+  const outcomes: ToolOutcome<T>[] = [];
+  const steps: ToolLoopStep[] = [];
+
+  for (let step = 1; ; step++) {
+    const startedAt = Date.now();
+    const final = step >= maxSteps;
+    const message = await complete(conversation, { step, final });
+    const toolCalls = message.tool_calls || [];
+
+    // A model that ignores tool_choice on the final step still ends the loop
+    if (toolCalls.length === 0 || final) {
+      steps.push({ step, durationMs: Date.now() - startedAt, toolCalls: [] });
+      return { message, conversation, outcomes, steps, stoppedEarly: false };
+    }
+
+    console.log(`🔁 Step ${step}: ${toolCalls.length} tool call(s)`);
+
+    // Settle every call so one failure does not sink the others; calls past the budget are answered with an error
+    const accepted = toolCalls.slice(0, maxToolCallsPerStep);
+    const settled = await Promise.allSettled(accepted.map(toolCall => execute(toolCall)));
+    const stepOutcomes = settled.map((outcome, index): ToolOutcome<T> => ({ ...outcome, toolCall: accepted[index] }));
+    outcomes.push(...stepOutcomes);
+
+    conversation.push(
+      { role: 'assistant', content: message.content, tool_calls: toolCalls },
+      ...stepOutcomes.map((outcome): ChatMessage => ({
+        role: 'tool',
+        tool_call_id: outcome.toolCall.id,
+        content: outcome.status === 'fulfilled' ? serialize(outcome.value) : serializeError(outcome.reason, outcome.toolCall)
+      })),
+      ...toolCalls.slice(maxToolCallsPerStep).map((toolCall): ChatMessage => ({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: JSON.stringify({ error: `Skipped: at most ${maxToolCallsPerStep} tool calls per step, combine requests or call it again` })
+      }))
+    );
+
+    steps.push({
+      step,
+      durationMs: Date.now() - startedAt,
+      toolCalls: [
+        ...stepOutcomes.map(outcome => ({
+          name: outcome.toolCall.function.name,
+          arguments: outcome.toolCall.function.arguments,
+          status: outcome.status === 'fulfilled' ? 'ok' as const : 'error' as const,
+          ...(outcome.status === 'rejected' ? { error: errorMessage(outcome.reason) } : {})
+        })),
+        ...toolCalls.slice(maxToolCallsPerStep).map(toolCall => ({
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments,
+          status: 'skipped' as const
+        }))
+      ]
+    });
+
+    if (onToolResults && await onToolResults(stepOutcomes)) {
+      return { message, conversation, outcomes, steps, stoppedEarly: true };
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import type { ToolDefinition, ChatToolCall } from './llmClient';
+import type { UnitSystem } from './units';
+import { AmbiguousLocationError, LocationNotFoundError, GeocodeHints } from './geocoding';
+
+// Registry of chat tools
+// Each tool module declares its JSON schema, a typed executor and its own error messages,
+// and the chat routes dispatch model tool calls by name through the registry
+
+export interface ToolContext {
+  units: UnitSystem;
+  language: string;
+  geocodeHints?: GeocodeHints;
+}
+
+export interface ChatTool<P, R> {
+  definition: ToolDefinition;
+  // Problems the JSON schema cannot express (date formats, ranges); empty when the arguments are usable
+  validate?: (params: P) => string[];
+  execute: (params: P, context: ToolContext) => Promise<R>;
+  // User-facing message for a failure of this tool, undefined to use the generic one
+  localizeError?: (error: unknown, language: string) => string | undefined;
+}
+
+// Any tool, whatever its parameter and result types
+type AnyChatTool = ChatTool<never, unknown>;
+
+type ToolResultOf<Tool> = Tool extends ChatTool<never, infer R> ? R : never;
+
+// Results of a registry's tools, discriminated by tool name
+export type ToolCallResultOf<Tools extends Record<string, AnyChatTool>> = {
+  [Name in keyof Tools & string]: { tool_call_id: string; name: Name; result: ToolResultOf<Tools[Name]> }
+}[keyof Tools & string];
+
+// What the model gets back for a failed call: the cause for itself, and a message it can pass on
+export interface ToolErrorReport {
+  error: string;
+  message: string;
+}
+
+export class UnknownToolError extends Error {
+  toolName: string;
+
+  constructor(toolName: string) {
+    super(`Unknown tool: ${toolName}`);
+    this.name = 'UnknownToolError';
+    this.toolName = toolName;
+  }
+}
+
+export class ToolArgumentError extends Error {
+  toolName: string;
+  problems: string[];
+
+  constructor(toolName: string, problems: string[]) {
+    super(`Invalid arguments for ${toolName}: ${problems.join('; ')}`);
+    this.name = 'ToolArgumentError';
+    this.toolName = toolName;
+    this.problems = problems;
+  }
+}
+
+interface JsonSchema {
+  type?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+// Check arguments against the subset of JSON Schema used by the tool definitions
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path: string = 'arguments'): string[] {
+  const actual = typeOf(value);
+  const typeMatches = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+  if (schema.type && !typeMatches) {
+    return [`${path} must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  if (actual === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, index) => validateAgainstSchema(schema.items!, item, `${path}[${index}]`));
+  }
+
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    const missing = (schema.required || [])
+      .filter(key => object[key] === undefined || object[key] === null)
+      .map(key => `${path === 'arguments' ? key : `${path}.${key}`} is required`);
+    const invalid = Object.entries(schema.properties || {})
+      .filter(([key]) => object[key] !== undefined && object[key] !== null)
+      .flatMap(([key, property]) => validateAgainstSchema(property, object[key], path === 'arguments' ? key : `${path}.${key}`));
+    return [...missing, ...invalid];
+  }
+
+  return [];
+}
+
+export class ToolRegistry<Tools extends Record<string, AnyChatTool>> {
+  constructor(private readonly tools: Tools) {
+    for (const [name, tool] of Object.entries(tools)) {
+      if (tool.definition.function.name !== name) {
+        throw new Error(`Tool registered as ${name} is named ${tool.definition.function.name}`);
+      }
+    }
+  }
+
+  // Definitions to offer the model
+  get definitions(): ToolDefinition[] {
+    return Object.values(this.tools).map(tool => tool.definition);
+  }
+
+  has(name: string): name is keyof Tools & string {
+    return Object.prototype.hasOwnProperty.call(this.tools, name);
+  }
+
+  // Parse, validate and run one model tool call
+  async execute(toolCall: ChatToolCall, context: ToolContext): Promise<ToolCallResultOf<Tools>> {
+    const name = toolCall.function.name;
+    if (!this.has(name)) {
+      throw new UnknownToolError(name);
+    }
+
+    console.log('🔧 Executing tool:', name);
+    const tool = this.tools[name] as unknown as ChatTool<unknown, unknown>;
+
+    let params: unknown;
+    try {
+      params = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      throw new ToolArgumentError(name, ['arguments are not valid JSON']);
+    }
+    console.log('📋 Tool arguments:', params);
+
+    const schemaProblems = validateAgainstSchema(tool.definition.function.parameters as JsonSchema, params);
+    const problems = schemaProblems.length > 0 ? schemaProblems : tool.validate?.(params) || [];
+    if (problems.length > 0) {
+      throw new ToolArgumentError(name, problems);
+    }
+
+    const result = await tool.execute(params, context);
+    return { tool_call_id: toolCall.id, name, result } as ToolCallResultOf<Tools>;
+  }
+
+  // Report a failed call in the user's language
+  describeError(toolName: string, error: unknown, language: string): ToolErrorReport {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      message: this.localizeError(toolName, error, language)
+    };
+  }
+
+  private localizeError(toolName: string, error: unknown, language: string): string {
+    const ja = language === 'ja';
+
+    if (error instanceof UnknownToolError) {
+      return ja ? 'このリクエストには対応していません。' : 'That request is not supported.';
+    }
+    if (error instanceof ToolArgumentError) {
+      return ja ? 'リクエストの内容を読み取れませんでした。' : 'The request details could not be understood.';
+    }
+    if (error instanceof LocationNotFoundError) {
+      return ja ? `「${error.query}」という場所が見つかりませんでした。` : `Couldn't find a place called "${error.query}".`;
+    }
+    if (error instanceof AmbiguousLocationError) {
+      return ja ? `「${error.query}」という地名は複数あります。` : `There is more than one place called "${error.query}".`;
+    }
+
+    const tool = this.has(toolName) ? this.tools[toolName] : undefined;
+    return tool?.localizeError?.(error, language)
+      || (ja ? 'データを取得できませんでした。' : "Couldn't get the data for this request.");
+  }
+}
@@ -0,0 +1,345 @@
+import {
+  executeWeatherTool,
+  getCoordinates,
+  parseDate,
+  addDays,
+  getLastForecastDate,
+  MAX_FORECAST_DAYS,
+  DailyWeatherEntry,
+  WeatherToolResponse
+} from './weatherTools';
+import { getClimateNormals } from './climateNormals';
+import { recommendOutfit, OutfitItem, OutfitLanguage, OutfitRecommendation } from './outfitRecommendation';
+import { mergeAlerts, WeatherAlert } from './weatherAlerts';
+import type { UnitSystem } from './units';
+import type { GeocodeHints } from './geocoding';
+import type { ChatTool } from './toolRegistry';
+import { checkDate, checkIntegerRange } from './validation';
+
+// Multi-city itinerary planning
+// Days inside the forecast horizon use forecasts, later days use climate normals
+
+export interface TripLegParams {
+  location: string;
+  startDate: string;
+  endDate?: string;
+  days?: number;
+}
+
+export interface TripPlanParams {
+  legs: TripLegParams[];
+}
+
+export interface TripPlanOptions {
+  units?: UnitSystem;
+  language?: string;
+  geocodeHints?: GeocodeHints;
+}
+
+export interface TripDay {
+  date: string;
+  source: 'forecast' | 'climate';
+  weather: DailyWeatherEntry;
+  rainChance?: number; // Climate days only: % of past years that were wet
+  packing: OutfitItem[]; // What to wear or carry that day
+}
+
+export interface TripActivity {
+  id: string;
+  label: string;
+}
+
+export interface TripLeg {
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  days: TripDay[];
+  outfit: OutfitRecommendation; // Clothing plan for the whole leg
+  activities: TripActivity[];
+  alerts: WeatherAlert[]; // From forecast days only
+}
+
+export interface TripPlan {
+  units: UnitSystem;
+  legs: TripLeg[];
+  packingList: Array<OutfitItem & { days: number }>; // Whole trip, most-used first
+}
+
+const MAX_TRIP_LEGS = 8;
+const MAX_LEG_DAYS = 16;
+
+const ACTIVITY_LABELS: Record<string, { en: string; ja: string }> = {
+  museums: { en: 'Museums, galleries and indoor markets', ja: '美術館・博物館や屋内マーケット' },
+  early_sightseeing: { en: 'Sightseeing early morning and evening, shade at midday', ja: '観光は朝夕に、日中は日陰で休憩' },
+  water: { en: 'Beaches, pools or river walks', ja: 'ビーチやプール、川沿いの散策' },
+  walking_tour: { en: 'Walking tours and parks', ja: '街歩きや公園散策' },
+  outdoor_dining: { en: 'Outdoor dining and terraces', ja: 'テラス席での食事' },
+  hiking: { en: 'Hiking and day trips', ja: 'ハイキングや日帰り旅行' },
+  cafes: { en: 'Cafés and covered shopping streets', ja: 'カフェや屋根付き商店街' },
+  hot_food: { en: 'Hot springs, warm food and winter illuminations', ja: '温泉や温かい料理、イルミネーション' }
+};
+
+function activity(id: string, language: OutfitLanguage): TripActivity {
+  return { id, label: ACTIVITY_LABELS[id][language] };
+}
+
+// Rule-based suggestions from the leg's outfit band and how many days are wet
+function suggestActivities(outfit: OutfitRecommendation, wetShare: number, language: OutfitLanguage): TripActivity[] {
+  const ids: string[] = [];
+
+  if (wetShare >= 0.5) {
+    ids.push('museums', 'cafes');
+  }
+
+  switch (outfit.band) {
+    case 'hot':
+      ids.push('early_sightseeing', 'water');
+      break;
+    case 'warm':
+    case 'mild':
+      ids.push('walking_tour', 'outdoor_dining', 'hiking');
+      break;
+    case 'cool':
+      ids.push('walking_tour', 'hiking', 'cafes');
+      break;
+    default:
+      ids.push('museums', 'hot_food');
+  }
+
+  return Array.from(new Set(ids)).slice(0, 4).map(id => activity(id, language));
+}
+
+// Resolve a leg's dates into an inclusive range
+function parseLegDates(leg: TripLegParams): { startDate: string; endDate: string } {
+  const today = new Date().toISOString().split('T')[0];
+  const toDate = (dateStr: string) => parseDate(dateStr).targetDate || today;
+
+  const startDate = toDate(leg.startDate);
+  const endDate = leg.endDate
+    ? toDate(leg.endDate)
+    : addDays(startDate, Math.max(1, Math.min(leg.days || 1, MAX_LEG_DAYS)) - 1);
+
+  if (endDate < startDate) {
+    throw new Error(`Invalid trip dates for ${leg.location}: ${endDate} is before ${startDate}`);
+  }
+  if (endDate > addDays(startDate, MAX_LEG_DAYS - 1)) {
+    throw new Error(`Trip legs are limited to ${MAX_LEG_DAYS} days`);
+  }
+  if (endDate < today) {
+    throw new Error(`Trip leg in ${leg.location} is in the past`);
+  }
+
+  return { startDate: startDate < today ? today : startDate, endDate };
+}
+
+type LegLocation = Pick<TripLeg, 'city' | 'country' | 'latitude' | 'longitude' | 'timezone'>;
+
+// Summary response over a leg's days so the outfit rules can run on it
+function toWeatherResponse(leg: LegLocation, days: DailyWeatherEntry[], units: UnitSystem): WeatherToolResponse {
+  const first = days[0];
+
+  return {
+    city: leg.city,
+    country: leg.country,
+    latitude: leg.latitude,
+    longitude: leg.longitude,
+    temperature: Math.round((first.temperatureMax + first.temperatureMin) / 2),
+    weatherCode: first.weatherCode,
+    description: first.description,
+    humidity: Math.max(...days.map(day => day.humidity)),
+    windSpeed: first.windSpeed,
+    precipitation: first.precipitation,
+    uvIndex: first.uvIndex,
+    timestamp: first.date,
+    dateType: 'forecast',
+    targetDate: first.date,
+    endDate: days[days.length - 1].date,
+    temperatureMax: Math.max(...days.map(day => day.temperatureMax)),
+    temperatureMin: Math.min(...days.map(day => day.temperatureMin)),
+    daily: days,
+    timezone: leg.timezone,
+    units
+  };
+}
+
+function packingFor(outfit: OutfitRecommendation): OutfitItem[] {
+  return [outfit.layers.base, outfit.layers.mid, outfit.layers.outer, outfit.footwear, ...outfit.accessories]
+    .filter((item): item is OutfitItem => item !== null);
+}
+
+async function planLeg(params: TripLegParams, units: UnitSystem, language: OutfitLanguage, geocodeHints?: GeocodeHints): Promise<TripLeg> {
+  const { startDate, endDate } = parseLegDates(params);
+  const lastForecastDay = getLastForecastDate();
+  const coords = await getCoordinates(params.location, geocodeHints);
+
+  const days: TripDay[] = [];
+  let alerts: WeatherAlert[] = [];
+  let timezone = coords.timezone || 'UTC';
+
+  if (startDate <= lastForecastDay) {
+    const forecast = await executeWeatherTool({
+      location: params.location,
+      startDate,
+      endDate: endDate < lastForecastDay ? endDate : lastForecastDay
+    }, { units, geocodeHints });
+
+    timezone = forecast.timezone || timezone;
+    alerts = forecast.alerts || [];
+    for (const day of forecast.daily || []) {
+      days.push({ date: day.date, source: 'forecast', weather: day, packing: [] });
+    }
+  }
+
+  if (endDate > lastForecastDay) {
+    const climateStart = startDate > lastForecastDay ? startDate : addDays(lastForecastDay, 1);
+    const normals = await getClimateNormals({ latitude: coords.lat, longitude: coords.lng, startDate: climateStart, endDate, units });
+
+    timezone = normals.timezone || timezone;
+    for (const { rainChance, ...day } of normals.days) {
+      days.push({ date: day.date, source: 'climate', weather: day, rainChance, packing: [] });
+    }
+  }
+
+  const leg = {
+    city: coords.city,
+    country: coords.country,
+    latitude: coords.lat,
+    longitude: coords.lng,
+    timezone,
+    startDate,
+    endDate
+  };
+
+  for (const day of days) {
+    day.packing = packingFor(recommendOutfit(toWeatherResponse(leg, [day.weather], units), { language }));
+  }
+
+  const outfit = recommendOutfit(toWeatherResponse(leg, days.map(day => day.weather), units), { language });
+  const wetShare = days.filter(day => day.packing.some(item => item.id === 'umbrella')).length / days.length;
+
+  return {
+    ...leg,
+    days,
+    outfit,
+    activities: suggestActivities(outfit, wetShare, language),
+    alerts: mergeAlerts(alerts)
+  };
+}
+
+// Plan tool definition for OpenAI
+export const tripPlanTool = {
+  type: "function" as const,
+  function: {
+    name: "plan_trip",
+    description: `Plan a multi-city trip itinerary, e.g. "Tokyo Mon-Wed, Kyoto Thu-Sat". Takes the legs in order and returns daily weather, a per-day packing list, and a clothing and activity plan per leg. Days more than ${MAX_FORECAST_DAYS} days ahead use typical weather (climate normals) instead of a forecast. Use it instead of get_weather when the user describes an itinerary or asks what to pack for a trip.`,
+    parameters: {
+      type: "object",
+      properties: {
+        legs: {
+          type: "array",
+          description: `Trip legs in travel order, at most ${MAX_TRIP_LEGS}.`,
+          items: {
+            type: "object",
+            properties: {
+              location: {
+                type: "string",
+                description: "City name (e.g., 'Tokyo', 'Kyoto'). Can be just city name or 'City, Country'."
+              },
+              startDate: {
+                type: "string",
+                description: "First day in this city: 'today', 'tomorrow', or YYYY-MM-DD."
+              },
+              endDate: {
+                type: "string",
+                description: "Last day (inclusive) in this city: 'today', 'tomorrow', or YYYY-MM-DD."
+              },
+              days: {
+                type: "integer",
+                description: `Number of days in this city when endDate is not given. Maximum ${MAX_LEG_DAYS}.`
+              }
+            },
+            required: ["location", "startDate"]
+          }
+        }
+      },
+      required: ["legs"]
+    }
+  }
+};
+
+// Execute plan tool
+export async function executeTripPlanTool(params: TripPlanParams, options: TripPlanOptions = {}): Promise<TripPlan> {
+  const units = options.units || 'metric';
+  const language: OutfitLanguage = options.language === 'ja' ? 'ja' : 'en';
+  console.log('🛠️ Executing trip plan tool:', JSON.stringify(params), units);
+
+  try {
+    if (!params.legs || params.legs.length === 0) {
+      throw new Error('A trip needs at least one leg');
+    }
+    if (params.legs.length > MAX_TRIP_LEGS) {
+      throw new Error(`Trips are limited to ${MAX_TRIP_LEGS} legs`);
+    }
+
+    const legs = await Promise.all(params.legs.map(leg => planLeg(leg, units, language, options.geocodeHints)));
+
+    // Count how many trip days need each item
+    const packing = new Map<string, OutfitItem & { days: number }>();
+    for (const day of legs.flatMap(leg => leg.days)) {
+      for (const item of day.packing) {
+        const entry = packing.get(item.id) || { ...item, days: 0 };
+        entry.days++;
+        packing.set(item.id, entry);
+      }
+    }
+
+    const plan: TripPlan = {
+      units,
+      legs,
+      packingList: Array.from(packing.values()).sort((a, b) => b.days - a.days)
+    };
+
+    console.log('✅ Trip plan result:', legs.map(leg => `${leg.city} ${leg.startDate}→${leg.endDate} (${leg.days.length} days)`));
+    return plan;
+
+  } catch (error) {
+    console.error('❌ Trip plan tool error:', error);
+    throw error;
+  }
+}
+
+// Registry entry for the chat routes
+export const tripPlanChatTool: ChatTool<TripPlanParams, TripPlan> = {
+  definition: tripPlanTool,
+  validate: params => {
+    if (params.legs.length === 0) {
+      return ['legs must contain at least one leg'];
+    }
+    if (params.legs.length > MAX_TRIP_LEGS) {
+      return [`legs is limited to ${MAX_TRIP_LEGS} legs`];
+    }
+    return params.legs.flatMap((leg, index) => [
+      checkDate(`legs[${index}].startDate`, leg.startDate),
+      leg.endDate !== undefined ? checkDate(`legs[${index}].endDate`, leg.endDate) : null,
+      leg.days !== undefined ? checkIntegerRange(`legs[${index}].days`, leg.days, 1, MAX_LEG_DAYS) : null
+    ]).filter((problem): problem is string => problem !== null);
+  },
+  execute: (params, { units, language, geocodeHints }) => executeTripPlanTool(params, { units, language, geocodeHints }),
+  localizeError: (error, language) => language === 'ja'
+    ? '旅行プランの天気データを取得できませんでした。'
+    : "Couldn't get the weather for this trip plan."
+};
+
+// Compact block for the formatting prompt
+export function formatTripPlanForPrompt(plan: TripPlan): string {
+  return plan.legs.map(leg => {
+    const climateDays = leg.days.filter(day => day.source === 'climate').length;
+    return `${leg.city} ${leg.startDate} → ${leg.endDate}${climateDays > 0 ? ` (${climateDays} day(s) from climate normals)` : ''}:
+- Activities: ${leg.activities.map(item => item.label).join(', ')}
+- Pack: ${Array.from(new Set(leg.days.flatMap(day => day.packing.map(item => item.label)))).join(', ')}`;
+  }).join('\n\n');
+}
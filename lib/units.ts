@@ -0,0 +1,67 @@
+// Unit systems for weather values
+// Metric: °C, km/h, mm. Imperial: °F, mph, inches (Open-Meteo converts when asked)
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_LABELS: Record<UnitSystem, { temperature: string; windSpeed: string; precipitation: string }> = {
+  metric: { temperature: '°C', windSpeed: 'km/h', precipitation: 'mm' },
+  imperial: { temperature: '°F', windSpeed: 'mph', precipitation: 'in' }
+};
+
+// Anything other than "imperial" (including missing values from older clients) is metric
+export function normalizeUnitSystem(value: unknown): UnitSystem {
+  return value === 'imperial' ? 'imperial' : 'metric';
+}
+
+// Open-Meteo query parameters; metric is the API default
+export function getOpenMeteoUnitParams(units: UnitSystem = 'metric'): Record<string, string> {
+  if (units === 'metric') {
+    return {};
+  }
+
+  return {
+    temperature_unit: 'fahrenheit',
+    wind_speed_unit: 'mph',
+    precipitation_unit: 'inch'
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function celsiusToFahrenheit(value: number): number {
+  return round1(value * 9 / 5 + 32);
+}
+
+export function fahrenheitToCelsius(value: number): number {
+  return round1((value - 32) * 5 / 9);
+}
+
+export function kmhToMph(value: number): number {
+  return round1(value / 1.609344);
+}
+
+export function mphToKmh(value: number): number {
+  return round1(value * 1.609344);
+}
+
+export function mmToInches(value: number): number {
+  return Math.round(value / 25.4 * 100) / 100;
+}
+
+export function inchesToMm(value: number): number {
+  return round1(value * 25.4);
+}
+
+// Convert a metric value for display in the given system
+export function formatTemperature(celsius: number, units: UnitSystem): string {
+  const value = units === 'imperial' ? Math.round(celsiusToFahrenheit(celsius)) : Math.round(celsius);
+  return `${value}${UNIT_LABELS[units].temperature}`;
+}
+
+// Prompt line telling the model which units the tool results use
+export function describeUnitsForPrompt(units: UnitSystem): string {
+  const labels = UNIT_LABELS[units];
+  return `UNITS: ${units}. All values in the weather data are already in ${labels.temperature}, ${labels.windSpeed} and ${labels.precipitation}; report them in these units and do not convert.`;
+}
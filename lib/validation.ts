@@ -0,0 +1,70 @@
+// Runtime checks for values produced by the model (tool arguments, JSON replies)
+// Each check returns a problem the model can act on, or null when the value is usable
+
+const RELATIVE_DATES = ['today', 'now', 'tomorrow', 'yesterday'];
+
+// YYYY-MM-DD naming a real day (no 2025-02-30)
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Date arguments: a relative day or YYYY-MM-DD
+export function checkDate(field: string, value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return `${field} must be a string`;
+  }
+  if (RELATIVE_DATES.includes(value.toLowerCase().trim()) || isCalendarDate(value)) {
+    return null;
+  }
+  return `${field} must be 'today', 'tomorrow', 'yesterday' or a real date in YYYY-MM-DD format, got "${value}"`;
+}
+
+// Local times in 24-hour format ("18:00", also "18")
+export function checkTime(field: string, value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return `${field} must be a string`;
+  }
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (match && parseInt(match[1], 10) <= 23 && (!match[2] || parseInt(match[2], 10) <= 59)) {
+    return null;
+  }
+  return `${field} must be a 24-hour time like "18:00", got "${value}"`;
+}
+
+export function checkIntegerRange(field: string, value: unknown, min: number, max: number): string | null {
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    return `${field} must be a whole number`;
+  }
+  if (value < min || value > max) {
+    return `${field} must be between ${min} and ${max}, got ${value}`;
+  }
+  return null;
+}
+
+export function checkCoordinates(latitude: unknown, longitude: unknown): string[] {
+  const problems: string[] = [];
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    problems.push(`latitude must be a number between -90 and 90, got ${JSON.stringify(latitude)}`);
+  }
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    problems.push(`longitude must be a number between -180 and 180, got ${JSON.stringify(longitude)}`);
+  }
+  return problems;
+}
+
+// IANA time zone names such as "Asia/Tokyo"
+export function checkTimezone(field: string, value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return `${field} must be an IANA time zone name like "Asia/Tokyo"`;
+  }
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return null;
+  } catch {
+    return `${field} "${value}" is not a known IANA time zone`;
+  }
+}
@@ -1,5 +1,14 @@
 import { contextManager, LocationData } from './contextManager';
-import { sessionStore } from './sessionContext';
+import { sessionStore, getSessionContextSummary } from './sessionContext';
+import { getWeatherProvider, WeatherRequest, WeatherPayload } from './weatherProvider';
+import { createChatCompletion, ChatMessage } from './llmClient';
+import { getComfortIndices, ComfortIndices } from './comfortIndices';
+import { classifyWeatherAlerts, WeatherAlert } from './weatherAlerts';
+import { getClimateNormals } from './climateNormals';
+import { resolveLocation } from './geocoding';
+import { checkCoordinates, checkTimezone, isCalendarDate } from './validation';
+import { isBeforeArchive, CurrentWeatherValues, DailyWeatherSeries } from './weatherTools';
+import type { UnitSystem } from './units';
 
 export interface WeatherData {
   city: string;
@@ -14,10 +23,16 @@ export interface WeatherData {
   uvIndex: number;
   weatherCode: number;
   description: string;
+  comfort?: ComfortIndices;
+  alerts?: WeatherAlert[];
 }
 
 
 
+// Variables requested from the weather provider
+const CURRENT_VARIABLES = ['temperature_2m', 'relative_humidity_2m', 'precipitation', 'cloud_cover', 'wind_speed_10m', 'uv_index', 'weather_code', 'apparent_temperature', 'dew_point_2m', 'wind_gusts_10m'];
+const DAILY_VARIABLES = ['temperature_2m_max', 'temperature_2m_min', 'relative_humidity_2m_max', 'precipitation_sum', 'wind_speed_10m_max', 'uv_index_max', 'weather_code', 'apparent_temperature_max', 'apparent_temperature_min', 'dew_point_2m_mean', 'wind_gusts_10m_max'];
+
 // Weather code to description mapping for Open-Meteo
 const weatherCodeDescriptions: { [key: number]: string } = {
   0: 'Clear sky',
@@ -50,87 +65,10 @@ const weatherCodeDescriptions: { [key: number]: string } = {
   99: 'Thunderstorm with heavy hail'
 };
 
-// Country capitals mapping
-const countryCapitals: { [key: string]: string } = {
-  'united states': 'Washington, D.C.',
-  'usa': 'Washington, D.C.',
-  'us': 'Washington, D.C.',
-  'united kingdom': 'London',
-  'uk': 'London',
-  'japan': 'Tokyo',
-  'china': 'Beijing',
-  'india': 'New Delhi',
-  'germany': 'Berlin',
-  'france': 'Paris',
-  'italy': 'Rome',
-  'spain': 'Madrid',
-  'canada': 'Ottawa',
-  'australia': 'Canberra',
-  'brazil': 'Brasília',
-  'russia': 'Moscow',
-  'south korea': 'Seoul',
-  'mexico': 'Mexico City',
-  'netherlands': 'Amsterdam',
-  'sweden': 'Stockholm',
-  'norway': 'Oslo',
-  'denmark': 'Copenhagen',
-  'finland': 'Helsinki',
-  'switzerland': 'Bern',
-  'austria': 'Vienna',
-  'belgium': 'Brussels',
-  'portugal': 'Lisbon',
-  'greece': 'Athens',
-  'turkey': 'Ankara',
-  'egypt': 'Cairo',
-  'south africa': 'Cape Town',
-  'argentina': 'Buenos Aires',
-  'chile': 'Santiago',
-  'colombia': 'Bogotá',
-  'peru': 'Lima',
-  'venezuela': 'Caracas',
-  'thailand': 'Bangkok',
-  'vietnam': 'Hanoi',
-  'singapore': 'Singapore',
-  'malaysia': 'Kuala Lumpur',
-  'indonesia': 'Jakarta',
-  'philippines': 'Manila',
-  'new zealand': 'Wellington',
-  'israel': 'Jerusalem',
-  'saudi arabia': 'Riyadh',
-  'uae': 'Abu Dhabi',
-  'united arab emirates': 'Abu Dhabi',
-  'poland': 'Warsaw',
-  'czech republic': 'Prague',
-  'hungary': 'Budapest',
-  'romania': 'Bucharest',
-  'bulgaria': 'Sofia',
-  'croatia': 'Zagreb',
-  'serbia': 'Belgrade',
-  'ukraine': 'Kyiv',
-  'belarus': 'Minsk',
-  'lithuania': 'Vilnius',
-  'latvia': 'Riga',
-  'estonia': 'Tallinn'
-};
-
 // Simple fallback function to get location data directly
 export async function getLocationData(cityName: string): Promise<LocationData> {
-  // Get coordinates using geocoding API
-  const geoResponse = await fetch(
-    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(cityName)}&count=1&language=en&format=json`
-  );
-
-  if (!geoResponse.ok) {
-    throw new Error(`Geocoding API error: ${geoResponse.status}`);
-  }
-
-  const geoData = await geoResponse.json();
-
-  if (!geoData.results || geoData.results.length === 0) {
-    throw new Error(`Location not found: ${cityName}`);
-  }
-
-  const location = geoData.results[0];
+  // Get coordinates using the configured geocoder, taking the best candidate when the name is ambiguous
+  const { location } = await resolveLocation(cityName);
 
   return {
     city: location.name,
@@ -147,7 +85,56 @@ export interface LocationRequest {
   timezone: string;
   requestTime: string;
   targetDate?: string; // YYYY-MM-DD format
-  dateType: 'current' | 'historical' | 'forecast';
+  dateType: 'current' | 'historical' | 'forecast' | 'climate'; // climate: beyond the 16-day forecast, averaged from past years
+}
+
+// The analyzer's JSON reply, once it has passed parseLocationReply
+export interface LocationReply {
+  city: string | null;
+  country?: string | null;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  requestTime: string;
+  targetDate?: string | null;
+  dateType?: LocationRequest['dateType'];
+  missingInfo?: string;
+  errorMessage?: string | null;
+}
+
+const MAX_ANALYSIS_ATTEMPTS = 2;
+const DATE_TYPES = ['current', 'historical', 'forecast', 'climate'];
+
+// Parse and check the analyzer's JSON reply; "no location" replies are valid and handled by the caller
+export function parseLocationReply(text: string): { data: LocationReply | null; problems: string[] } {
+  let data;
+  try {
+    // Models sometimes wrap the object in a Markdown code fence
+    data = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return { data: null, problems: ['the reply is not valid JSON'] };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { data: null, problems: ['the reply must be a JSON object'] };
+  }
+  if (data.missingInfo === 'location' || !data.city) {
+    return { data, problems: [] };
+  }
+
+  const problems = [
+    typeof data.city !== 'string' ? 'city must be a string' : null,
+    ...checkCoordinates(data.latitude, data.longitude),
+    checkTimezone('timezone', data.timezone),
+    data.targetDate != null && (typeof data.targetDate !== 'string' || !isCalendarDate(data.targetDate))
+      ? `targetDate must be null or a real date in YYYY-MM-DD format, got ${JSON.stringify(data.targetDate)}`
+      : null,
+    data.dateType != null && !DATE_TYPES.includes(data.dateType)
+      ? `dateType must be one of ${DATE_TYPES.join(', ')}, got ${JSON.stringify(data.dateType)}`
+      : null
+  ].filter((problem): problem is string => problem !== null);
+
+  return { data, problems };
 }
 
 export async function analyzeUserQueryWithContext(query: string, language: string = 'en', sessionId?: string): Promise<LocationRequest> {
@@ -156,7 +143,7 @@ export async function analyzeUserQueryWithContext(query: string, language: strin
   console.log('🔑 Session ID:', sessionId || 'No session provided');
 
   // Get session context if available
-  const session = sessionId ? sessionStore.getSession(sessionId) : null;
+  const session = sessionId ? await sessionStore.getSession(sessionId) : null;
   const sessionContext = session?.context;
 
   // First, resolve implicit context using the context manager
@@ -196,35 +183,16 @@ export async function analyzeUserQueryWithContext(query: string, language: strin
   const enhancedQuery = contextResolution.contextualQuery;
   console.log('📝 Enhanced query:', enhancedQuery);
 
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not found');
-  }
-
   try {
     // Get current context summary for AI (use session context if available)
     const contextSummary = sessionContext ?
-      `Current Context:
-- Location: ${sessionContext.location.current ? `${sessionContext.location.current.city}, ${sessionContext.location.current.country}` : 'Not set'}
-- Timeframe: ${sessionContext.temporal.currentTimeframe}${sessionContext.temporal.targetDate ? ` (${sessionContext.temporal.targetDate})` : ''}
-- Last Query: ${sessionContext.conversation.lastWeatherQuery || 'None'}
-- Intent: ${sessionContext.conversation.queryIntent}
-- Recent Locations: ${sessionContext.location.recent.slice(0, 3).map(l => l.city).join(', ') || 'None'}
-- Session: ${sessionContext.session.messageCount} messages` :
+      getSessionContextSummary(sessionContext) :
       contextManager.getContextSummary();
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a multilingual location and time analyzer with enhanced context awareness. Analyze the user's query (in ${language === 'ja' ? 'Japanese' : 'English'}) and extract location and date information.
+    const conversation: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are a multilingual location and time analyzer with enhanced context awareness. Analyze the user's query (in ${language === 'ja' ? 'Japanese' : 'English'}) and extract location and date information.
 
 ENHANCED CONTEXT INFORMATION:
 ${contextSummary}
@@ -251,7 +219,7 @@ Return ONLY a JSON object with the following format:
   "timezone": "timezone_identifier",
   "requestTime": "current_time_iso",
   "targetDate": "YYYY-MM-DD or null",
-  "dateType": "current|historical|forecast",
+  "dateType": "current|historical|forecast|climate",
   "missingInfo": "location|time|none",
   "errorMessage": "user-friendly message in ${language === 'ja' ? 'Japanese' : 'English'} or null"
 }
@@ -276,7 +244,7 @@ CRITICAL RULES:
 3. If ONLY date is mentioned (no location) AND previous location exists: use previous location
 4. For specific dates like "10th October", "December 25th", assume CURRENT YEAR (2025) unless specified otherwise
 5. Compare the target date with today's date to determine if it's "historical" (past) or "forecast" (future)
-6. FORECAST LIMIT: Weather forecasts are only available up to 16 days in the future. If a date is more than 16 days from today, return an error.
+6. FORECAST LIMIT: Weather forecasts are only available up to 16 days in the future. For dates more than 16 days from today use dateType: "climate" (typical weather from past years) - do NOT return an error.
 
 ${language === 'ja' ? `
 - "今日", "本日", "現在" -> dateType: "current", targetDate: null
@@ -358,37 +326,35 @@ ADDITIONAL EXAMPLES:
 - "weather in Paris tomorrow" -> {"city": "Paris", "country": "France", "latitude": 48.8566, "longitude": 2.3522, "timezone": "Europe/Paris", "requestTime": "2025-09-24T12:00:00Z", "targetDate": "2025-09-25", "dateType": "forecast"}
 - "weather in London yesterday" -> {"city": "London", "country": "UK", "latitude": 51.5074, "longitude": -0.1278, "timezone": "Europe/London", "requestTime": "2025-09-24T12:00:00Z", "targetDate": "2025-09-23", "dateType": "historical"}
 - "weather in New York on December 25th" -> {"city": "New York", "country": "USA", "latitude": 40.7128, "longitude": -74.0060, "timezone": "America/New_York", "requestTime": "2025-09-24T12:00:00Z", "targetDate": "2025-12-25", "dateType": "forecast"}
-- "December 25th" (with previous location New York) -> {"city": "New York", "country": "USA", "latitude": 40.7128, "longitude": -74.0060, "timezone": "America/New_York", "requestTime": "2025-09-24T12:00:00Z", "targetDate": "2025-12-25", "dateType": "forecast"}
-
-FORECAST LIMIT VALIDATION:
-- If a forecast date is more than 16 days from today, return: {"missingInfo": "time", "errorMessage": "Weather forecasts are only available up to 16 days in the future. Please choose a date within the next 16 days."}`
-          },
-          {
-            role: 'user',
-            content: enhancedQuery
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 200
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ OpenAI API error response:', errorText);
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const aiResponse = data.choices[0].message.content.trim();
-    console.log('🤖 OpenAI response:', aiResponse);
-
-    let locationData;
-    try {
-      locationData = JSON.parse(aiResponse);
-    } catch (parseError) {
-      console.error('❌ Failed to parse AI response:', aiResponse);
-      throw new Error('Could not parse location data from AI response');
+- "December 25th" (with previous location New York) -> {"city": "New York", "country": "USA", "latitude": 40.7128, "longitude": -74.0060, "timezone": "America/New_York", "requestTime": "2025-09-24T12:00:00Z", "targetDate": "2025-12-25", "dateType": "forecast"}`
+      },
+      {
+        role: 'user',
+        content: enhancedQuery
+      }
+    ];
+
+    // Unusable replies go back to the model with the problems, once, before giving up
+    let locationData: LocationReply;
+    for (let attempt = 1; ; attempt++) {
+      const message = await createChatCompletion({ messages: conversation, temperature: 0.1, max_tokens: 200 });
+      const aiResponse = (message.content || '').trim();
+      console.log('🤖 OpenAI response:', aiResponse);
+
+      const reply = parseLocationReply(aiResponse);
+      if (reply.data && reply.problems.length === 0) {
+        locationData = reply.data;
+        break;
+      }
+
+      console.error('❌ Invalid location reply:', reply.problems);
+      if (attempt >= MAX_ANALYSIS_ATTEMPTS) {
+        throw new Error(`Invalid location data from AI: ${reply.problems.join('; ')}`);
+      }
+      conversation.push(
+        { role: 'assistant', content: aiResponse },
+        { role: 'user', content: `That reply could not be used: ${reply.problems.join('; ')}. Reply again with only the corrected JSON object.` }
+      );
     }
 
     // Check if AI couldn't identify a location and handle missing info
@@ -407,12 +373,6 @@ FORECAST LIMIT VALIDATION:
       timezone: locationData.timezone
     });
 
-    // Validate that we have numeric coordinates
-    if (typeof locationData.latitude !== 'number' || typeof locationData.longitude !== 'number') {
-      console.error('❌ Invalid coordinate types:', typeof locationData.latitude, typeof locationData.longitude);
-      throw new Error('Invalid coordinate types received from AI');
-    }
-
     // Update context manager with the resolved location and temporal info
     const resolvedLocationData: LocationData = {
       city: locationData.city,
@@ -425,7 +385,8 @@ FORECAST LIMIT VALIDATION:
 
     contextManager.updateLocation(resolvedLocationData);
     contextManager.updateTemporalContext(
-      locationData.dateType || 'current',
+      // Climate normals are for future dates, follow-ups treat them like forecasts
+      locationData.dateType === 'climate' ? 'forecast' : locationData.dateType || 'current',
       locationData.targetDate || undefined,
       contextResolution.temporal.relativeDateContext
     );
@@ -436,7 +397,7 @@ FORECAST LIMIT VALIDATION:
       longitude: locationData.longitude,
       timezone: locationData.timezone,
       requestTime: locationData.requestTime,
-      targetDate: locationData.targetDate || null,
+      targetDate: locationData.targetDate || undefined,
       dateType: locationData.dateType || 'current'
     };
   } catch (error) {
@@ -445,7 +406,8 @@ FORECAST LIMIT VALIDATION:
   }
 }
 
-export async function getWeatherFromOpenMeteo(locationRequest: LocationRequest): Promise<any> {
+// units applies to climate normals; the other paths return metric values
+export async function getWeatherFromOpenMeteo(locationRequest: LocationRequest, units: UnitSystem = 'metric'): Promise<any> {
   console.log('🌤️ Fetching weather data from Open-Meteo for:', locationRequest.city);
   console.log('📍 Coordinates:', locationRequest.latitude, locationRequest.longitude);
   console.log('📅 Date type:', locationRequest.dateType, 'Target date:', locationRequest.targetDate);
@@ -459,8 +421,9 @@ export async function getWeatherFromOpenMeteo(locationRequest: LocationRequest):
     throw new Error('Coordinates out of valid range');
   }
 
-  // Validate forecast date limits
-  if (locationRequest.dateType === 'forecast' && locationRequest.targetDate) {
+  // Validate forecast date limits, without changing the caller's request
+  let dateType = locationRequest.dateType;
+  if (dateType === 'forecast' && locationRequest.targetDate) {
     const today = new Date();
     const targetDate = new Date(locationRequest.targetDate);
     const daysDifference = Math.ceil((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
@@ -468,109 +431,181 @@ export async function getWeatherFromOpenMeteo(locationRequest: LocationRequest):
     console.log('📊 Days difference for forecast:', daysDifference);
 
     if (daysDifference > 16) {
-      const error = new Error('Weather forecasts are only available up to 16 days in the future. Please choose a date within the next 16 days.');
-      (error as any).forecastLimitExceeded = true;
-      throw error;
+      console.log('📈 Beyond the forecast horizon, switching to climate normals');
+      dateType = 'climate';
     }
 
     if (daysDifference < 0) {
       console.log('⚠️ Target date is in the past, switching to historical data');
-      locationRequest.dateType = 'historical';
+      dateType = 'historical';
     }
   }
 
-  let url: string;
-  let params: URLSearchParams;
+  // Typical conditions for the calendar date, averaged over past years
+  if (dateType === 'climate' && locationRequest.targetDate) {
+    const normals = await getClimateNormals({
+      latitude: locationRequest.latitude,
+      longitude: locationRequest.longitude,
+      startDate: locationRequest.targetDate,
+      endDate: locationRequest.targetDate,
+      units
+    });
+    const day = normals.days[0];
 
-  if (locationRequest.dateType === 'historical' && locationRequest.targetDate) {
+    const climateData = {
+      city: locationRequest.city,
+      latitude: locationRequest.latitude,
+      longitude: locationRequest.longitude,
+      timezone: normals.timezone,
+      dateType: 'climate',
+      targetDate: locationRequest.targetDate,
+      temperature: Math.round((day.temperatureMax + day.temperatureMin) / 2),
+      temperatureMax: day.temperatureMax,
+      temperatureMin: day.temperatureMin,
+      humidity: day.humidity,
+      windSpeed: day.windSpeed,
+      precipitation: day.precipitation,
+      uvIndex: day.uvIndex,
+      weatherCode: day.weatherCode,
+      description: weatherCodeDescriptions[day.weatherCode] || 'Unknown',
+      timestamp: day.date,
+      rainChance: day.rainChance,
+      climateYears: normals.years,
+      comfort: getComfortIndices({
+        temperature: day.temperatureMax,
+        humidity: day.humidity,
+        windSpeed: day.windSpeed,
+        apparentTemperature: day.apparentTemperatureMax !== null && day.apparentTemperatureMin !== null
+          ? (day.apparentTemperatureMax + day.apparentTemperatureMin) / 2
+          : null,
+        windGusts: day.windGusts
+      }, units),
+      units,
+      alerts: []
+    };
+
+    console.log('✅ Processed climate normals:', climateData);
+    return climateData;
+  }
+
+  const provider = getWeatherProvider();
+  const request: WeatherRequest = {
+    latitude: locationRequest.latitude,
+    longitude: locationRequest.longitude
+  };
+  let data: WeatherPayload;
+
+  if (dateType === 'historical' && locationRequest.targetDate) {
     // Historical weather data
     console.log('📜 Fetching historical weather data');
-    params = new URLSearchParams({
-      latitude: locationRequest.latitude.toString(),
-      longitude: locationRequest.longitude.toString(),
-      start_date: locationRequest.targetDate,
-      end_date: locationRequest.targetDate,
-      daily: 'temperature_2m_max,temperature_2m_min,relative_humidity_2m_max,precipitation_sum,wind_speed_10m_max,uv_index_max,weather_code',
-      timezone: 'auto'
-    });
-    url = `https://archive-api.open-meteo.com/v1/archive?${params.toString()}`;
+    const historyRequest = {
+      ...request,
+      startDate: locationRequest.targetDate,
+      endDate: locationRequest.targetDate,
+      daily: DAILY_VARIABLES
+    };
+    // The last few days are not in the archive yet
+    data = isBeforeArchive(locationRequest.targetDate)
+      ? await provider.getDaily(historyRequest)
+      : await provider.getArchive(historyRequest);
 
-  } else if (locationRequest.dateType === 'forecast' && locationRequest.targetDate) {
+  } else if (dateType === 'forecast' && locationRequest.targetDate) {
     // Future forecast data
     console.log('🔮 Fetching forecast weather data');
-    params = new URLSearchParams({
-      latitude: locationRequest.latitude.toString(),
-      longitude: locationRequest.longitude.toString(),
-      start_date: locationRequest.targetDate,
-      end_date: locationRequest.targetDate,
-      daily: 'temperature_2m_max,temperature_2m_min,relative_humidity_2m_max,precipitation_sum,wind_speed_10m_max,uv_index_max,weather_code',
-      timezone: 'auto'
+    data = await provider.getDaily({
+      ...request,
+      startDate: locationRequest.targetDate,
+      endDate: locationRequest.targetDate,
+      daily: DAILY_VARIABLES
     });
-    url = `https://api.open-meteo.com/v1/forecast?${params.toString()}`;
 
   } else {
     // Current weather data
     console.log('⏰ Fetching current weather data');
-    params = new URLSearchParams({
-      latitude: locationRequest.latitude.toString(),
-      longitude: locationRequest.longitude.toString(),
-      current: 'temperature_2m,relative_humidity_2m,precipitation,cloud_cover,wind_speed_10m,uv_index,weather_code',
-      timezone: 'auto'
+    data = await provider.getCurrent({
+      ...request,
+      current: CURRENT_VARIABLES
     });
-    url = `https://api.open-meteo.com/v1/forecast?${params.toString()}`;
   }
 
-  console.log('🔗 Open-Meteo API URL:', url);
-
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('❌ Open-Meteo API error:', response.status);
-    console.error('❌ Error response:', errorText);
-    throw new Error(`Open-Meteo API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log('📊 Raw weather data from Open-Meteo:', JSON.stringify(data, null, 2));
+  console.log('📊 Raw weather data from provider:', JSON.stringify(data, null, 2));
 
   let weatherData: any;
 
-  if (locationRequest.dateType === 'historical' || locationRequest.dateType === 'forecast') {
+  if (dateType === 'historical' || dateType === 'forecast') {
     // Handle daily data for historical/forecast
-    const daily = data.daily;
+    const daily = data.daily as DailyWeatherSeries | undefined;
     if (!daily || !daily.time || daily.time.length === 0) {
       throw new Error('No weather data available for the requested date');
     }
 
     const dayIndex = 0; // First (and only) day since we query single date
+    const temperatureMax = daily.temperature_2m_max[dayIndex];
+    const temperatureMin = daily.temperature_2m_min[dayIndex];
+    const humidity = daily.relative_humidity_2m_max[dayIndex];
+    const windSpeed = daily.wind_speed_10m_max[dayIndex];
+    const precipitation = daily.precipitation_sum[dayIndex];
+    const uvIndex = daily.uv_index_max[dayIndex];
+    const weatherCode = daily.weather_code[dayIndex];
+    // The archive leaves days without readings yet null; they are missing, not zero
+    if (temperatureMax == null || temperatureMin == null || humidity == null || windSpeed == null
+      || precipitation == null || uvIndex == null || weatherCode == null) {
+      throw new Error('No weather data available for the requested date');
+    }
+    const apparentMax = daily.apparent_temperature_max?.[dayIndex];
+    const apparentMin = daily.apparent_temperature_min?.[dayIndex];
     weatherData = {
       city: locationRequest.city,
       latitude: locationRequest.latitude,
       longitude: locationRequest.longitude,
       timezone: data.timezone,
-      dateType: locationRequest.dateType,
+      dateType,
       targetDate: locationRequest.targetDate,
-      temperature: Math.round((daily.temperature_2m_max[dayIndex] + daily.temperature_2m_min[dayIndex]) / 2),
-      temperatureMax: Math.round(daily.temperature_2m_max[dayIndex]),
-      temperatureMin: Math.round(daily.temperature_2m_min[dayIndex]),
-      humidity: daily.relative_humidity_2m_max[dayIndex],
-      windSpeed: daily.wind_speed_10m_max[dayIndex],
-      precipitation: daily.precipitation_sum[dayIndex],
-      uvIndex: daily.uv_index_max[dayIndex],
-      weatherCode: daily.weather_code[dayIndex],
-      description: weatherCodeDescriptions[daily.weather_code[dayIndex]] || 'Unknown',
-      timestamp: daily.time[dayIndex]
+      temperature: Math.round((temperatureMax + temperatureMin) / 2),
+      temperatureMax: Math.round(temperatureMax),
+      temperatureMin: Math.round(temperatureMin),
+      humidity,
+      windSpeed,
+      precipitation,
+      uvIndex,
+      weatherCode,
+      description: weatherCodeDescriptions[weatherCode] || 'Unknown',
+      timestamp: daily.time[dayIndex],
+      comfort: getComfortIndices({
+        temperature: temperatureMax,
+        humidity,
+        windSpeed,
+        dewPoint: daily.dew_point_2m_mean?.[dayIndex],
+        apparentTemperature: typeof apparentMax === 'number' && typeof apparentMin === 'number' ? (apparentMax + apparentMin) / 2 : null,
+        windGusts: daily.wind_gusts_10m_max?.[dayIndex]
+      }),
+      alerts: classifyWeatherAlerts({
+        period: 'day',
+        weatherCode,
+        temperatureMax,
+        temperatureMin,
+        apparentTemperatureMax: apparentMax,
+        apparentTemperatureMin: apparentMin,
+        precipitation,
+        windSpeed,
+        windGusts: daily.wind_gusts_10m_max?.[dayIndex],
+        uvIndex,
+        date: locationRequest.targetDate
+      })
     };
   } else {
     // Handle current weather data
-    const current = data.current;
+    const current = data.current as (CurrentWeatherValues & { cloud_cover: number }) | undefined;
+    if (!current) {
+      throw new Error('No current weather data available');
+    }
+
     weatherData = {
       city: locationRequest.city,
       latitude: locationRequest.latitude,
       longitude: locationRequest.longitude,
       timezone: data.timezone,
-      dateType: locationRequest.dateType,
+      dateType,
       targetDate: null,
       temperature: Math.round(current.temperature_2m),
       humidity: current.relative_humidity_2m,
@@ -580,7 +615,27 @@ export async function getWeatherFromOpenMeteo(locationRequest: LocationRequest):
       uvIndex: current.uv_index,
       weatherCode: current.weather_code,
       description: weatherCodeDescriptions[current.weather_code] || 'Unknown',
-      timestamp: current.time
+      timestamp: current.time,
+      comfort: getComfortIndices({
+        temperature: current.temperature_2m,
+        humidity: current.relative_humidity_2m,
+        windSpeed: current.wind_speed_10m,
+        dewPoint: current.dew_point_2m,
+        apparentTemperature: current.apparent_temperature,
+        windGusts: current.wind_gusts_10m
+      }),
+      alerts: classifyWeatherAlerts({
+        period: 'hour',
+        weatherCode: current.weather_code,
+        temperatureMax: current.temperature_2m,
+        temperatureMin: current.temperature_2m,
+        apparentTemperatureMax: current.apparent_temperature,
+        apparentTemperatureMin: current.apparent_temperature,
+        precipitation: current.precipitation,
+        windSpeed: current.wind_speed_10m,
+        windGusts: current.wind_gusts_10m,
+        uvIndex: current.uv_index
+      })
     };
   }
 
@@ -619,12 +674,6 @@ export async function analyzeUserQuery(query: string, language: string = 'en', p
 }
 
 export async function formatWeatherResponseWithContext(weatherData: any, originalQuery: string, language: string = 'en'): Promise<string> {
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not found');
-  }
-
   console.log('🎨 Formatting weather response with enhanced context...');
   console.log('📝 Original query:', originalQuery);
   console.log('🌍 Language:', language);
@@ -635,18 +684,11 @@ export async function formatWeatherResponseWithContext(weatherData: any, origina
   const userPreferences = contextManager.getPreferences();
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a weather and lifestyle assistant with enhanced context awareness. Format the weather data into a comprehensive response with fashion and travel recommendations.
+    const message = await createChatCompletion({
+      messages: [
+        {
+          role: 'system',
+          content: `You are a weather and lifestyle assistant with enhanced context awareness. Format the weather data into a comprehensive response with fashion and travel recommendations.
 
 WEATHER DATA PROVIDED:
 ${JSON.stringify(weatherData, null, 2)}
@@ -665,17 +707,18 @@ CONVERSATION CONTEXT:
 - Follow-up Context: ${conversationContext.followUpContext || 'None'}
 
 FORMATTING RULES:
-1. Start with "Weather Summary" (NO stars or special characters in heading)
+1. Start with "Weather Summary" (NO stars or special characters in heading); if the weather data has "alerts", state them right after the heading, most severe first, before anything else
 2. Use ${userPreferences.detailLevel} level of detail
 3. Tailor response to query intent: ${conversationContext.queryIntent}
-4. Include specific temperature, humidity, wind, and precipitation details
+4. Include specific temperature, humidity, wind, and precipitation details, plus the feels-like temperature from "comfort" when it differs from the air temperature
 5. Provide fashion recommendations (clothing, materials, accessories) based on weather
 6. Suggest activities and travel advice appropriate for conditions
 7. Give practical tips based on UV index, weather conditions
 8. If historical: use past tense ("was", "had")
 9. If forecast: mention it's a prediction ("expected", "likely")
-10. If this is a follow-up question, reference previous context appropriately
-11. Keep the response focused and actionable
+10. If climate: say clearly these are typical conditions averaged over past years ("climateYears"), not a forecast, and give the "rainChance"
+11. If this is a follow-up question, reference previous context appropriately
+12. Keep the response focused and actionable
 
 INTENT-SPECIFIC FORMATTING:
 - weather: Focus on current conditions and immediate recommendations
@@ -689,25 +732,17 @@ Language: Respond in ${language === 'ja' ? 'Japanese' : 'English'}
 IMPORTANT: Do NOT use stars (**) or special formatting characters in headings. Use plain text only.
 
 Make it conversational, helpful, and specific to the weather conditions, time context, and user's query intent.`
-          },
-          {
-            role: 'user',
-            content: originalQuery
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 600
-      })
+        },
+        {
+          role: 'user',
+          content: originalQuery
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 600
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ OpenAI formatting error:', errorText);
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const formattedResponse = data.choices[0].message.content.trim();
+    const formattedResponse = (message.content || '').trim();
 
     // Update conversation context with the response
     contextManager.updateConversationContext(originalQuery, conversationContext.queryIntent, formattedResponse);
@@ -0,0 +1,187 @@
+import type { WeatherToolResponse } from './weatherTools';
+import { fahrenheitToCelsius, inchesToMm, mphToKmh, UnitSystem } from './units';
+
+// Rule-based severe weather classification
+// Thresholds are metric; imperial input is converted before classifying
+
+export type AlertLevel = 'advisory' | 'warning' | 'danger';
+export type AlertType = 'thunderstorm' | 'rain' | 'freezingRain' | 'snow' | 'fog' | 'wind' | 'heat' | 'cold' | 'uv';
+
+export interface WeatherAlert {
+  level: AlertLevel;
+  type: AlertType;
+  message: { en: string; ja: string };
+  date?: string; // Day the alert applies to, for ranges and forecasts
+}
+
+// One observation or one day of data
+export interface AlertInput {
+  period: 'hour' | 'day'; // Precipitation is per hour for current data, per day for daily data
+  weatherCode: number;
+  temperatureMax: number;
+  temperatureMin: number;
+  apparentTemperatureMax?: number | null;
+  apparentTemperatureMin?: number | null;
+  precipitation: number;
+  windSpeed: number;
+  windGusts?: number | null;
+  uvIndex: number;
+  date?: string;
+}
+
+const LEVEL_ORDER: Record<AlertLevel, number> = { advisory: 1, warning: 2, danger: 3 };
+
+const MESSAGES: Record<AlertType, { en: string; ja: string }> = {
+  thunderstorm: { en: 'Thunderstorms expected - stay indoors during lightning and avoid open areas', ja: '雷雨の恐れがあります。雷の間は屋内にとどまり、開けた場所を避けてください' },
+  rain: { en: 'Heavy rain - watch for flooding and allow extra travel time', ja: '大雨の恐れがあります。浸水に注意し、移動には余裕を持ってください' },
+  freezingRain: { en: 'Freezing rain - roads and pavements may be icy', ja: '着氷性の雨の恐れがあります。道路や歩道の凍結に注意してください' },
+  snow: { en: 'Heavy snow - travel may be disrupted', ja: '大雪の恐れがあります。交通機関の乱れに注意してください' },
+  fog: { en: 'Fog - reduced visibility for drivers and flights', ja: '霧で視界が悪くなる恐れがあります' },
+  wind: { en: 'Strong wind gusts - secure loose objects and take care outdoors', ja: '強い突風の恐れがあります。屋外では飛来物に注意してください' },
+  heat: { en: 'Extreme heat - limit time outdoors, drink water and watch for heat illness', ja: '厳しい暑さです。屋外での活動を控え、こまめに水分を取り熱中症に注意してください' },
+  cold: { en: 'Extreme cold - risk of frostbite, cover exposed skin', ja: '厳しい寒さです。凍傷の恐れがあるため肌の露出を避けてください' },
+  uv: { en: 'Very high UV - avoid midday sun and use sunscreen', ja: '紫外線が非常に強いです。日中の日差しを避け、日焼け止めを使ってください' }
+};
+
+function byThreshold(value: number, advisory: number, warning: number, danger: number): AlertLevel | null {
+  if (value >= danger) return 'danger';
+  if (value >= warning) return 'warning';
+  if (value >= advisory) return 'advisory';
+  return null;
+}
+
+function codeAlert(code: number): [AlertType, AlertLevel] | null {
+  if (code === 96 || code === 99) return ['thunderstorm', 'danger']; // With hail
+  if (code === 95) return ['thunderstorm', 'warning'];
+  if (code === 66 || code === 67) return ['freezingRain', 'warning'];
+  if (code === 56 || code === 57) return ['freezingRain', 'advisory'];
+  if (code === 75 || code === 86) return ['snow', 'warning'];
+  if (code === 73 || code === 85) return ['snow', 'advisory'];
+  if (code === 65 || code === 82) return ['rain', 'warning'];
+  if (code === 45 || code === 48) return ['fog', 'advisory'];
+  return null;
+}
+
+export function classifyWeatherAlerts(input: AlertInput): WeatherAlert[] {
+  const found: Array<[AlertType, AlertLevel | null]> = [];
+
+  const fromCode = codeAlert(input.weatherCode);
+  if (fromCode) found.push(fromCode);
+
+  found.push(['rain', input.period === 'hour'
+    ? byThreshold(input.precipitation, 10, 20, 40)
+    : byThreshold(input.precipitation, 30, 50, 100)]);
+
+  // Gusts when known, otherwise sustained wind with lower thresholds
+  found.push(['wind', input.windGusts !== null && input.windGusts !== undefined
+    ? byThreshold(input.windGusts, 60, 75, 90)
+    : byThreshold(input.windSpeed, 40, 55, 70)]);
+
+  const hottest = Math.max(input.temperatureMax, input.apparentTemperatureMax ?? -Infinity);
+  found.push(['heat', byThreshold(hottest, 32, 35, 40)]);
+
+  const coldest = Math.min(input.temperatureMin, input.apparentTemperatureMin ?? Infinity);
+  found.push(['cold', byThreshold(-coldest, 10, 20, 30)]);
+
+  found.push(['uv', byThreshold(input.uvIndex, 8, 11, Infinity)]);
+
+  return mergeAlerts(found
+    .filter((entry): entry is [AlertType, AlertLevel] => entry[1] !== null)
+    .map(([type, level]) => ({ level, type, message: MESSAGES[type], ...(input.date ? { date: input.date } : {}) })));
+}
+
+// One alert per type at its highest level, most severe first
+export function mergeAlerts(alerts: WeatherAlert[]): WeatherAlert[] {
+  const byType = new Map<AlertType, WeatherAlert>();
+  for (const alert of alerts) {
+    const existing = byType.get(alert.type);
+    if (!existing || LEVEL_ORDER[alert.level] > LEVEL_ORDER[existing.level]) {
+      byType.set(alert.type, alert);
+    }
+  }
+
+  return Array.from(byType.values()).sort((a, b) => LEVEL_ORDER[b.level] - LEVEL_ORDER[a.level]);
+}
+
+function toMetricInput(input: AlertInput, units: UnitSystem): AlertInput {
+  if (units === 'metric') {
+    return input;
+  }
+
+  const temperature = (value: number | null | undefined) =>
+    value === null || value === undefined ? value : fahrenheitToCelsius(value);
+
+  return {
+    ...input,
+    temperatureMax: fahrenheitToCelsius(input.temperatureMax),
+    temperatureMin: fahrenheitToCelsius(input.temperatureMin),
+    apparentTemperatureMax: temperature(input.apparentTemperatureMax),
+    apparentTemperatureMin: temperature(input.apparentTemperatureMin),
+    precipitation: inchesToMm(input.precipitation),
+    windSpeed: mphToKmh(input.windSpeed),
+    windGusts: input.windGusts === null || input.windGusts === undefined ? input.windGusts : mphToKmh(input.windGusts)
+  };
+}
+
+// Alerts for a get_weather result: every day of a range, the requested hours, or the current snapshot
+export function getWeatherAlerts(weather: WeatherToolResponse): WeatherAlert[] {
+  const units = weather.units || 'metric';
+  const inputs: AlertInput[] = [];
+
+  if (weather.daily && weather.daily.length > 0) {
+    for (const day of weather.daily) {
+      inputs.push({
+        period: 'day',
+        weatherCode: day.weatherCode,
+        temperatureMax: day.temperatureMax,
+        temperatureMin: day.temperatureMin,
+        apparentTemperatureMax: day.apparentTemperatureMax,
+        apparentTemperatureMin: day.apparentTemperatureMin,
+        precipitation: day.precipitation,
+        windSpeed: day.windSpeed,
+        windGusts: day.windGusts,
+        uvIndex: day.uvIndex,
+        date: day.date
+      });
+    }
+  } else {
+    inputs.push({
+      period: weather.dateType === 'current' ? 'hour' : 'day',
+      weatherCode: weather.weatherCode,
+      temperatureMax: weather.temperatureMax ?? weather.temperature,
+      temperatureMin: weather.temperatureMin ?? weather.temperature,
+      apparentTemperatureMax: weather.comfort?.apparentTemperature,
+      apparentTemperatureMin: weather.comfort?.apparentTemperature,
+      precipitation: weather.precipitation,
+      windSpeed: weather.windSpeed,
+      windGusts: weather.comfort?.windGusts,
+      uvIndex: weather.uvIndex,
+      date: weather.targetDate
+    });
+  }
+
+  for (const hour of weather.hourly || []) {
+    inputs.push({
+      period: 'hour',
+      weatherCode: hour.weatherCode,
+      temperatureMax: hour.temperature,
+      temperatureMin: hour.temperature,
+      apparentTemperatureMax: hour.apparentTemperature,
+      apparentTemperatureMin: hour.apparentTemperature,
+      precipitation: hour.precipitation,
+      windSpeed: hour.windSpeed,
+      windGusts: hour.windGusts,
+      uvIndex: 0, // Hourly UV is not requested
+      date: hour.time.slice(0, 10)
+    });
+  }
+
+  return mergeAlerts(inputs.flatMap(input => classifyWeatherAlerts(toMetricInput(input, units))));
+}
+
+// Prompt lines for the formatting pass
+export function formatAlertsForPrompt(city: string, alerts: WeatherAlert[], language: string = 'en'): string {
+  return alerts
+    .map(alert => `- [${alert.level.toUpperCase()}] ${city}${alert.date ? ` (${alert.date})` : ''}: ${alert.message[language === 'ja' ? 'ja' : 'en']}`)
+    .join('\n');
+}
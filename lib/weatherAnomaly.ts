@@ -0,0 +1,192 @@
+import { executeWeatherTool, getCoordinates, parseDate, getLastForecastDate, DailyWeatherEntry } from './weatherTools';
+import { getClimateNormals, MAX_CLIMATE_NORMAL_YEARS } from './climateNormals';
+import { getLocalDate } from './astronomy';
+import type { UnitSystem } from './units';
+import type { GeocodeHints } from './geocoding';
+import type { ChatTool } from './toolRegistry';
+import { checkDate, checkIntegerRange } from './validation';
+
+// "Warmer than usual?" - a day's weather against the same calendar date in previous years
+// Anomalies are observed minus the multi-year mean, in the response's units
+
+export interface WeatherAnomalyParams {
+  location: string;
+  date?: string;
+  years?: number;
+}
+
+export interface WeatherAnomalyOptions {
+  units?: UnitSystem;
+  geocodeHints?: GeocodeHints;
+}
+
+export interface DayValues {
+  temperatureMax: number;
+  temperatureMin: number;
+  temperatureMean: number;
+  precipitation: number;
+}
+
+export type AnomalyVerdict = 'muchColder' | 'colder' | 'normal' | 'warmer' | 'muchWarmer';
+
+export interface WeatherAnomalyResponse {
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  units: UnitSystem;
+  date: string;
+  dateType: 'historical' | 'forecast'; // forecast includes today
+  observed: DayValues;
+  average: DayValues; // Mean over the previous years
+  anomaly: DayValues; // observed - average
+  verdict: AnomalyVerdict; // From the daily mean temperature anomaly
+  rank: number; // 1 = warmest daily mean among the previous years and this one
+  previousYears: Array<DayValues & { year: number; date: string }>; // Most recent first
+}
+
+const DEFAULT_ANOMALY_YEARS = 10;
+
+// °C; multiplied by 1.8 for imperial
+const NORMAL_RANGE = 1.5;
+const LARGE_ANOMALY = 4;
+
+// Weather anomaly tool definition for OpenAI
+export const weatherAnomalyTool = {
+  type: "function" as const,
+  function: {
+    name: "get_weather_anomaly",
+    description: `Compare a city's weather on a date with the same date in previous years: anomalies versus the multi-year average (e.g. +4°C vs the 10-year mean), a rank among those years, and each year's values. Use it for questions like "is today unusually hot in Mumbai?" or "warmer than usual?". Works for past dates and up to the forecast horizon.`,
+    parameters: {
+      type: "object",
+      properties: {
+        location: {
+          type: "string",
+          description: "City name (e.g., 'Mumbai', 'Tokyo'). Can be just city name or 'City, Country'."
+        },
+        date: {
+          type: "string",
+          description: "Date to compare: 'today' (default), 'tomorrow', 'yesterday', or YYYY-MM-DD."
+        },
+        years: {
+          type: "integer",
+          description: `How many previous years to compare against (default ${DEFAULT_ANOMALY_YEARS}, maximum ${MAX_CLIMATE_NORMAL_YEARS}).`
+        }
+      },
+      required: ["location"]
+    }
+  }
+};
+
+function toDayValues(day: DailyWeatherEntry): DayValues {
+  return {
+    temperatureMax: day.temperatureMax,
+    temperatureMin: day.temperatureMin,
+    temperatureMean: Math.round((day.temperatureMax + day.temperatureMin) / 2 * 10) / 10,
+    precipitation: day.precipitation
+  };
+}
+
+function mean(values: number[]): number {
+  return Math.round(values.reduce((total, value) => total + value, 0) / values.length * 10) / 10;
+}
+
+export function getAnomalyVerdict(temperatureAnomaly: number, units: UnitSystem = 'metric'): AnomalyVerdict {
+  const scale = units === 'imperial' ? 1.8 : 1;
+  if (temperatureAnomaly >= LARGE_ANOMALY * scale) return 'muchWarmer';
+  if (temperatureAnomaly > NORMAL_RANGE * scale) return 'warmer';
+  if (temperatureAnomaly <= -LARGE_ANOMALY * scale) return 'muchColder';
+  if (temperatureAnomaly < -NORMAL_RANGE * scale) return 'colder';
+  return 'normal';
+}
+
+// Execute weather anomaly tool
+export async function executeWeatherAnomalyTool(params: WeatherAnomalyParams, options: WeatherAnomalyOptions = {}): Promise<WeatherAnomalyResponse> {
+  const units = options.units || 'metric';
+  console.log('🛠️ Executing weather anomaly tool:', params, units);
+
+  try {
+    const coords = await getCoordinates(params.location, options.geocodeHints);
+    const date = parseDate(params.date).targetDate || getLocalDate(coords.timezone || 'UTC');
+
+    if (date > getLastForecastDate()) {
+      throw new Error(`Anomalies need observed or forecast data; ${date} is beyond the forecast horizon`);
+    }
+
+    // A one-day range always comes back as a daily entry, today included
+    const [weather, normals] = await Promise.all([
+      executeWeatherTool({ location: params.location, startDate: date, endDate: date }, { units, geocodeHints: options.geocodeHints }),
+      getClimateNormals({
+        latitude: coords.lat,
+        longitude: coords.lng,
+        startDate: date,
+        endDate: date,
+        units,
+        years: params.years || DEFAULT_ANOMALY_YEARS
+      })
+    ]);
+
+    const day = weather.daily?.[0];
+    if (!day) {
+      throw new Error('No weather data available for the requested date');
+    }
+
+    const observed = toDayValues(day);
+    const previousYears = normals.history
+      .filter(sample => sample.days.length > 0)
+      .map(sample => ({ year: sample.year, date: sample.days[0].date, ...toDayValues(sample.days[0]) }));
+
+    const average: DayValues = {
+      temperatureMax: mean(previousYears.map(year => year.temperatureMax)),
+      temperatureMin: mean(previousYears.map(year => year.temperatureMin)),
+      temperatureMean: mean(previousYears.map(year => year.temperatureMean)),
+      precipitation: mean(previousYears.map(year => year.precipitation))
+    };
+
+    const difference = (key: keyof DayValues) => Math.round((observed[key] - average[key]) * 10) / 10;
+    const anomaly: DayValues = {
+      temperatureMax: difference('temperatureMax'),
+      temperatureMin: difference('temperatureMin'),
+      temperatureMean: difference('temperatureMean'),
+      precipitation: difference('precipitation')
+    };
+
+    const result: WeatherAnomalyResponse = {
+      city: weather.city,
+      country: weather.country,
+      latitude: weather.latitude,
+      longitude: weather.longitude,
+      timezone: weather.timezone || normals.timezone,
+      units,
+      date,
+      dateType: weather.dateType === 'historical' ? 'historical' : 'forecast',
+      observed,
+      average,
+      anomaly,
+      verdict: getAnomalyVerdict(anomaly.temperatureMean, units),
+      rank: previousYears.filter(year => year.temperatureMean > observed.temperatureMean).length + 1,
+      previousYears
+    };
+
+    console.log('✅ Weather anomaly result:', { date, observed, average, anomaly, verdict: result.verdict });
+    return result;
+
+  } catch (error) {
+    console.error('❌ Weather anomaly tool error:', error);
+    throw error;
+  }
+}
+
+// Registry entry for the chat routes
+export const weatherAnomalyChatTool: ChatTool<WeatherAnomalyParams, WeatherAnomalyResponse> = {
+  definition: weatherAnomalyTool,
+  validate: params => [
+    params.date !== undefined ? checkDate('date', params.date) : null,
+    params.years !== undefined ? checkIntegerRange('years', params.years, 1, MAX_CLIMATE_NORMAL_YEARS) : null
+  ].filter((problem): problem is string => problem !== null),
+  execute: (params, { units, geocodeHints }) => executeWeatherAnomalyTool(params, { units, geocodeHints }),
+  localizeError: (error, language) => language === 'ja'
+    ? '過去の同じ日との比較データを取得できませんでした。'
+    : "Couldn't get the data to compare with past years."
+};
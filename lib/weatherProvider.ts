@@ -0,0 +1,93 @@
+import { OpenMeteoProvider } from './openMeteoProvider';
+import { FixtureWeatherProvider } from './fixtureWeatherProvider';
+import { CachedWeatherProvider } from './cachedWeatherProvider';
+import { requestCache, CacheStatus } from './cache';
+import type { UnitSystem } from './units';
+
+// Provider-neutral weather data access
+// Variable names and response shape follow Open-Meteo (e.g. "temperature_2m", "daily.time"),
+// other providers map their data onto the same shape
+
+export interface WeatherRequest {
+  latitude: number;
+  longitude: number;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  forecastDays?: number;
+  current?: string[];
+  daily?: string[];
+  hourly?: string[];
+  units?: UnitSystem; // Defaults to metric (°C, km/h, mm)
+}
+
+// One value per variable, plus "time" and "interval"
+export type CurrentValues = Record<string, number | string | null>;
+
+// Parallel arrays per variable, indexed like "time" (ISO strings)
+export type SeriesValues = Record<string, (number | null)[] | string[]>;
+
+// Times are local to the location (timezone=auto)
+export interface WeatherPayload {
+  timezone: string;
+  current?: CurrentValues;
+  daily?: SeriesValues;
+  hourly?: SeriesValues;
+  cache?: CacheStatus; // Set by the caching layer
+}
+
+export interface GeocodeResult {
+  name: string;
+  country: string;
+  countryCode?: string;
+  admin1?: string;
+  latitude: number;
+  longitude: number;
+  timezone?: string;
+  population?: number;
+}
+
+export interface GeocodeOptions {
+  count?: number;
+  language?: string;
+}
+
+export interface WeatherProvider {
+  readonly name: string;
+  getCurrent(request: WeatherRequest): Promise<WeatherPayload>;
+  getDaily(request: WeatherRequest): Promise<WeatherPayload>;
+  getArchive(request: WeatherRequest): Promise<WeatherPayload>;
+  getAirQuality(request: WeatherRequest): Promise<WeatherPayload>; // Pollutant and pollen variables, current and hourly only
+  geocode(name: string, options?: GeocodeOptions): Promise<GeocodeResult[]>;
+}
+
+let provider: WeatherProvider | null = null;
+
+// Select the provider from WEATHER_PROVIDER ("open-meteo" by default, "fixture" for offline use)
+// Fetches go through the shared request cache
+export function getWeatherProvider(): WeatherProvider {
+  if (!provider) {
+    const providerName = process.env.WEATHER_PROVIDER || 'open-meteo';
+    let selected: WeatherProvider;
+
+    switch (providerName) {
+      case 'fixture':
+        selected = new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_FILE);
+        break;
+      case 'open-meteo':
+        selected = new OpenMeteoProvider();
+        break;
+      default:
+        throw new Error(`Unknown weather provider: ${providerName}`);
+    }
+
+    provider = new CachedWeatherProvider(selected, requestCache);
+    console.log('🌐 Using weather provider:', provider.name);
+  }
+
+  return provider;
+}
+
+// Replace the active provider (tests and scripts); it is used as given, without the cache
+export function setWeatherProvider(weatherProvider: WeatherProvider | null): void {
+  provider = weatherProvider;
+}
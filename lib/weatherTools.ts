@@ -1,31 +1,169 @@
+import { getWeatherProvider, WeatherRequest, WeatherPayload, SeriesValues } from './weatherProvider';
+import { getComfortIndices, ComfortIndices } from './comfortIndices';
+import type { UnitSystem } from './units';
+import { getWeatherAlerts, WeatherAlert } from './weatherAlerts';
+import { getSunTimes, getLocalDate, SunTimes } from './astronomy';
+import { getClimateNormals, ClimateNormals } from './climateNormals';
+import { resolveLocation, AmbiguousLocationError, LocationNotFoundError, GeocodeHints, LocationResolution } from './geocoding';
+import { combineCacheStatus, CacheStatus } from './cache';
+import type { ChatTool } from './toolRegistry';
+import { checkDate, checkTime, checkIntegerRange, isCalendarDate } from './validation';
+
 // Optimized weather system using OpenAI Tool Calling
 // Reduces 3 API calls to 1
 
 export interface WeatherToolParams {
   location: string;
   date?: string;
+  startDate?: string;
+  endDate?: string;
+  days?: number;
+  time?: string;
+  hourRange?: string;
+}
+
+export interface DailyWeatherEntry {
+  date: string;
+  temperatureMax: number;
+  temperatureMin: number;
+  weatherCode: number;
+  description: string;
+  humidity: number;
+  windSpeed: number;
+  precipitation: number;
+  uvIndex: number;
+  apparentTemperatureMax: number | null;
+  apparentTemperatureMin: number | null;
+  windGusts: number | null;
+  sunrise: string | null; // Local time, null during polar day or night
+  sunset: string | null;
+}
+
+export interface HourlyWeatherEntry {
+  time: string; // Local time in the city's timezone (YYYY-MM-DDTHH:mm)
+  temperature: number;
+  precipitationProbability: number | null; // Not available for historical data
+  precipitation: number;
+  windSpeed: number;
+  weatherCode: number;
+  description: string;
+  apparentTemperature: number | null;
+  windGusts: number | null;
 }
 
 export interface WeatherToolResponse {
   city: string;
   country: string;
+  latitude: number;
+  longitude: number;
   temperature: number;
+  weatherCode: number; // WMO code, see weatherDescriptions
   description: string;
   humidity: number;
   windSpeed: number;
   precipitation: number;
   uvIndex: number;
   timestamp: string;
-  dateType: 'current' | 'historical' | 'forecast';
+  dateType: 'current' | 'historical' | 'forecast' | 'climate'; // climate: averages of past years, beyond the forecast horizon
   targetDate?: string;
+  endDate?: string;
+  temperatureMax?: number;
+  temperatureMin?: number;
+  daily?: DailyWeatherEntry[];
+  timezone?: string;
+  hourly?: HourlyWeatherEntry[];
+  comfort?: ComfortIndices; // Feels-like temperature, dew point, gusts and heat/cold indices
+  units?: UnitSystem; // Unit system of every value above (metric when missing)
+  alerts?: WeatherAlert[]; // Severe conditions, most severe first
+  sun?: SunTimes; // Sunrise, sunset and golden hour for the (first) requested day
+  rainChance?: number; // Climate mode: % of past years with rain on the (first) day
+  climateYears?: number[]; // Years averaged for climate days
+  climateFrom?: string; // First daily entry that is a climate normal (with "rainChance") rather than a forecast
+  cache?: CacheStatus; // Whether the data came from the request cache
 }
 
+export interface WeatherToolOptions {
+  units?: UnitSystem; // Chosen by the user, not by the model
+  geocodeHints?: GeocodeHints; // Session locations used to pick between places with the same name
+}
+
+// The requested dates cannot be served: an invalid range, or no data for those days
+export class WeatherDateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WeatherDateError';
+  }
+}
+
+// Open-Meteo forecasts only reach 16 days ahead, later dates use climate normals
+export const MAX_FORECAST_DAYS = 16;
+
+// Last date covered by the forecast API
+export function getLastForecastDate(): string {
+  return addDays(new Date().toISOString().split('T')[0], MAX_FORECAST_DAYS - 1);
+}
+
+// The archive fills in the last few days late (null until then); the forecast API still has them
+export const ARCHIVE_DELAY_DAYS = 5;
+
+// Whether a past date is too recent for the archive
+export function isBeforeArchive(date: string): boolean {
+  return date >= addDays(new Date().toISOString().split('T')[0], -ARCHIVE_DELAY_DAYS);
+}
+
+// Variables requested from the weather provider
+const CURRENT_VARIABLES = ['temperature_2m', 'relative_humidity_2m', 'precipitation', 'wind_speed_10m', 'uv_index', 'weather_code', 'apparent_temperature', 'dew_point_2m', 'wind_gusts_10m'];
+export const DAILY_VARIABLES = ['temperature_2m_max', 'temperature_2m_min', 'relative_humidity_2m_max', 'precipitation_sum', 'wind_speed_10m_max', 'uv_index_max', 'weather_code', 'apparent_temperature_max', 'apparent_temperature_min', 'dew_point_2m_mean', 'wind_gusts_10m_max'];
+const HOURLY_VARIABLES = ['temperature_2m', 'precipitation_probability', 'precipitation', 'wind_speed_10m', 'weather_code', 'apparent_temperature', 'wind_gusts_10m'];
+const HOURLY_ARCHIVE_VARIABLES = ['temperature_2m', 'precipitation', 'wind_speed_10m', 'weather_code', 'apparent_temperature', 'wind_gusts_10m'];
+
+// Payload blocks as returned for the variables above
+// Newer variables may be missing or null for some locations and dates
+export type CurrentWeatherValues = {
+  time: string;
+  temperature_2m: number;
+  relative_humidity_2m: number;
+  precipitation: number;
+  wind_speed_10m: number;
+  uv_index: number;
+  weather_code: number;
+  apparent_temperature?: number | null;
+  dew_point_2m?: number | null;
+  wind_gusts_10m?: number | null;
+};
+
+export type DailyWeatherSeries = {
+  time: string[];
+  temperature_2m_max: (number | null)[];
+  temperature_2m_min: (number | null)[];
+  relative_humidity_2m_max: (number | null)[];
+  precipitation_sum: (number | null)[];
+  wind_speed_10m_max: (number | null)[];
+  uv_index_max: (number | null)[];
+  weather_code: (number | null)[];
+  apparent_temperature_max?: (number | null)[];
+  apparent_temperature_min?: (number | null)[];
+  dew_point_2m_mean?: (number | null)[];
+  wind_gusts_10m_max?: (number | null)[];
+};
+
+type HourlyWeatherSeries = {
+  time: string[];
+  temperature_2m: number[];
+  precipitation_probability?: (number | null)[];
+  precipitation: number[];
+  wind_speed_10m: number[];
+  weather_code: number[];
+  apparent_temperature?: (number | null)[];
+  wind_gusts_10m?: (number | null)[];
+};
+
 // Weather tool definition for OpenAI
 export const weatherTool = {
   type: "function" as const,
   function: {
     name: "get_weather",
-    description: "Get current weather, forecast, or historical weather data for any city worldwide. Supports natural language dates like 'today', 'tomorrow', 'yesterday', or specific dates.",
+    description: "Get current weather, forecast, or historical weather data for any city worldwide. Supports natural language dates like 'today', 'tomorrow', 'yesterday', or specific dates. For date ranges (e.g. 'this weekend', 'next 5 days') use startDate/endDate or days to get one daily entry per day in a single call. For time-of-day questions (e.g. 'at 6pm', 'evening walk') use time or hourRange to get hourly data in the city's local time.",
     parameters: {
       type: "object",
       properties: {
@@ -35,7 +173,27 @@ export const weatherTool = {
         },
         date: {
           type: "string",
-          description: "Date for weather data. Options: 'today' (default), 'tomorrow', 'yesterday', or YYYY-MM-DD format. For historical data, use dates in the past."
+          description: `Date for weather data. Options: 'today' (default), 'tomorrow', 'yesterday', or YYYY-MM-DD format. For historical data, use dates in the past. Dates more than ${MAX_FORECAST_DAYS} days ahead return typical weather for that date (climate normals from past years) with dateType 'climate'.`
+        },
+        startDate: {
+          type: "string",
+          description: "First day of a date range: 'today', 'tomorrow', 'yesterday', or YYYY-MM-DD. Use with endDate or days instead of date."
+        },
+        endDate: {
+          type: "string",
+          description: "Last day (inclusive) of a date range: 'today', 'tomorrow', 'yesterday', or YYYY-MM-DD."
+        },
+        days: {
+          type: "integer",
+          description: `Number of days in the range, starting at startDate (or today). Maximum ${MAX_FORECAST_DAYS}.`
+        },
+        time: {
+          type: "string",
+          description: "Specific local time of day in 24-hour HH:MM format (e.g. '18:00' for 6pm). Returns hourly data for that hour."
+        },
+        hourRange: {
+          type: "string",
+          description: "Local hour range in 24-hour format like '17:00-21:00', or 'morning', 'afternoon', 'evening', 'night'. Returns hourly data for those hours."
         }
       },
       required: ["location"]
@@ -43,70 +201,36 @@ export const weatherTool = {
   }
 };
 
-// City coordinates lookup (for common cities)
-const CITY_COORDINATES: Record<string, { lat: number; lng: number; country: string }> = {
-  // India
-  "mumbai": { lat: 19.0760, lng: 72.8777, country: "India" },
-  "delhi": { lat: 28.7041, lng: 77.1025, country: "India" },
-  "bangalore": { lat: 12.9716, lng: 77.5946, country: "India" },
-  "varanasi": { lat: 25.3176, lng: 82.9739, country: "India" },
-  "kolkata": { lat: 22.5726, lng: 88.3639, country: "India" },
-  "chennai": { lat: 13.0827, lng: 80.2707, country: "India" },
-  "hyderabad": { lat: 17.3850, lng: 78.4867, country: "India" },
-  "pune": { lat: 18.5204, lng: 73.8567, country: "India" },
-  
-  // International
-  "tokyo": { lat: 35.6762, lng: 139.6503, country: "Japan" },
-  "london": { lat: 51.5074, lng: -0.1278, country: "UK" },
-  "paris": { lat: 48.8566, lng: 2.3522, country: "France" },
-  "new york": { lat: 40.7128, lng: -74.0060, country: "USA" },
-  "sydney": { lat: -33.8688, lng: 151.2093, country: "Australia" },
-  "berlin": { lat: 52.5200, lng: 13.4050, country: "Germany" },
-  "rome": { lat: 41.9028, lng: 12.4964, country: "Italy" },
-  "madrid": { lat: 40.4168, lng: -3.7038, country: "Spain" }
-};
-
 // Get coordinates for a city
-async function getCoordinates(location: string): Promise<{ lat: number; lng: number; city: string; country: string }> {
-  const normalizedLocation = location.toLowerCase().trim();
-  
-  // Try hardcoded cities first (fastest)
-  const coords = CITY_COORDINATES[normalizedLocation];
-  if (coords) {
-    return {
-      lat: coords.lat,
-      lng: coords.lng,
-      city: location,
-      country: coords.country
-    };
-  }
-  
-  // Fallback to geocoding API
+// Throws AmbiguousLocationError when several places fit equally well (e.g. "Springfield")
+export async function getCoordinates(location: string, hints: GeocodeHints = {}): Promise<{ lat: number; lng: number; city: string; country: string; timezone?: string }> {
+  // Bundled gazetteer first, then the geocoding API
+  let resolution: LocationResolution;
   try {
-    const response = await fetch(
-      `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1&language=en&format=json`
-    );
-    
-    const data = await response.json();
-    
-    if (!data.results || data.results.length === 0) {
-      throw new Error(`Location "${location}" not found`);
-    }
-    
-    const result = data.results[0];
-    return {
-      lat: result.latitude,
-      lng: result.longitude,
-      city: result.name,
-      country: result.country
-    };
+    resolution = await resolveLocation(location, hints);
   } catch (error) {
+    if (error instanceof LocationNotFoundError) {
+      throw error;
+    }
     throw new Error(`Could not find coordinates for "${location}": ${error}`);
   }
+
+  if (resolution.ambiguous) {
+    throw new AmbiguousLocationError(location, resolution.candidates);
+  }
+
+  const result = resolution.location;
+  return {
+    lat: result.latitude,
+    lng: result.longitude,
+    city: result.name,
+    country: result.country,
+    timezone: result.timezone
+  };
 }
 
 // Convert date string to proper format
-function parseDate(dateStr: string = "today"): { targetDate: string | undefined; dateType: 'current' | 'historical' | 'forecast' } {
+export function parseDate(dateStr: string = "today"): { targetDate: string | undefined; dateType: 'current' | 'historical' | 'forecast' | 'climate' } {
   const today = new Date();
   
   switch (dateStr.toLowerCase()) {
@@ -137,7 +261,7 @@ function parseDate(dateStr: string = "today"): { targetDate: string | undefined;
         const isHistorical = targetDate < today;
         return {
           targetDate: dateStr,
-          dateType: isHistorical ? 'historical' : 'forecast'
+          dateType: isHistorical ? 'historical' : dateStr > getLastForecastDate() ? 'climate' : 'forecast'
         };
       }
       
@@ -146,6 +270,128 @@ function parseDate(dateStr: string = "today"): { targetDate: string | undefined;
   }
 }
 
+// Shift a YYYY-MM-DD date by a number of days
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// Resolve startDate/endDate/days into an inclusive range, or null for single-date requests
+function parseDateRange(params: WeatherToolParams): { startDate: string; endDate: string; dateType: 'historical' | 'forecast' | 'climate' } | null {
+  if (!params.startDate && !params.endDate && !params.days) {
+    return null;
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const toDate = (dateStr?: string) => (dateStr && parseDate(dateStr).targetDate) || today;
+
+  const startDate = toDate(params.startDate);
+  const endDate = params.endDate
+    ? toDate(params.endDate)
+    : addDays(startDate, Math.max(1, Math.min(params.days || 1, MAX_FORECAST_DAYS)) - 1);
+
+  if (endDate < startDate) {
+    throw new WeatherDateError(`Invalid date range: ${endDate} is before ${startDate}`);
+  }
+
+  if (endDate > addDays(startDate, MAX_FORECAST_DAYS - 1)) {
+    throw new WeatherDateError(`Date ranges are limited to ${MAX_FORECAST_DAYS} days`);
+  }
+
+  return {
+    startDate,
+    endDate,
+    // Ranges reaching today or later come from the forecast API, which also covers recent past days;
+    // forecast ranges running past the horizon get climate normals for the remaining days
+    dateType: endDate < today ? 'historical' : startDate > getLastForecastDate() ? 'climate' : 'forecast'
+  };
+}
+
+// Named parts of the day, in local hours (inclusive)
+const DAY_PERIODS: Record<string, { startHour: number; endHour: number }> = {
+  morning: { startHour: 6, endHour: 11 },
+  afternoon: { startHour: 12, endHour: 16 },
+  evening: { startHour: 17, endHour: 20 },
+  night: { startHour: 21, endHour: 23 }
+};
+
+// Resolve time/hourRange into an inclusive local hour window, or null when no hourly data is wanted
+function parseHourRange(params: WeatherToolParams): { startHour: number; endHour: number } | null {
+  const parseHour = (value: string): number => {
+    const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+    const hour = match ? parseInt(match[1], 10) : NaN;
+    if (isNaN(hour) || hour > 23) {
+      throw new Error(`Invalid time "${value}". Use 24-hour HH:MM format`);
+    }
+    return hour;
+  };
+
+  if (params.hourRange) {
+    const period = DAY_PERIODS[params.hourRange.toLowerCase().trim()];
+    if (period) {
+      return period;
+    }
+
+    const [start, end] = params.hourRange.split('-');
+    const startHour = parseHour(start);
+    const endHour = end ? parseHour(end) : startHour;
+    return startHour <= endHour ? { startHour, endHour } : { startHour: endHour, endHour: startHour };
+  }
+
+  if (params.time) {
+    const hour = parseHour(params.time);
+    return { startHour: hour, endHour: hour };
+  }
+
+  return null;
+}
+
+// Check arguments from the model before running the tool; problems are sent back for it to correct
+export function validateWeatherToolParams(params: WeatherToolParams): string[] {
+  const problems: string[] = [];
+
+  if (typeof params.location !== 'string' || params.location.trim() === '') {
+    problems.push('location must be a city name');
+  } else if (params.location.length > 100) {
+    problems.push('location must be a single city name, not a sentence');
+  }
+
+  for (const field of ['date', 'startDate', 'endDate'] as const) {
+    const problem = params[field] !== undefined ? checkDate(field, params[field]) : null;
+    if (problem) problems.push(problem);
+  }
+
+  if (params.date !== undefined && (params.startDate !== undefined || params.endDate !== undefined || params.days !== undefined)) {
+    problems.push('use either date or startDate/endDate/days, not both');
+  }
+  if (params.endDate !== undefined && params.days !== undefined) {
+    problems.push('use either endDate or days, not both');
+  }
+  if (params.startDate && params.endDate && isCalendarDate(params.startDate) && isCalendarDate(params.endDate) && params.endDate < params.startDate) {
+    problems.push(`endDate ${params.endDate} is before startDate ${params.startDate}`);
+  }
+
+  const daysProblem = params.days !== undefined ? checkIntegerRange('days', params.days, 1, MAX_FORECAST_DAYS) : null;
+  if (daysProblem) problems.push(daysProblem);
+
+  const timeProblem = params.time !== undefined ? checkTime('time', params.time) : null;
+  if (timeProblem) problems.push(timeProblem);
+
+  if (params.hourRange !== undefined) {
+    const parts = String(params.hourRange).split('-');
+    const valid = typeof params.hourRange === 'string' && (
+      DAY_PERIODS[params.hourRange.toLowerCase().trim()] !== undefined
+      || (parts.length <= 2 && parts.every(part => checkTime('hourRange', part) === null))
+    );
+    if (!valid) {
+      problems.push(`hourRange must be like "17:00-21:00" or one of ${Object.keys(DAY_PERIODS).join(', ')}, got ${JSON.stringify(params.hourRange)}`);
+    }
+  }
+
+  return problems;
+}
+
 // Weather code descriptions
 const weatherDescriptions: Record<number, string> = {
   0: 'Clear sky',
@@ -169,109 +415,247 @@ const weatherDescriptions: Record<number, string> = {
   95: 'Thunderstorm'
 };
 
+export function getWeatherDescription(code: number): string {
+  return weatherDescriptions[code] || 'Unknown';
+}
+
+function roundOrNull(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value);
+}
+
+// One entry per day of a provider "daily" block requested with DAILY_VARIABLES
+// Days without readings yet (null values) are left out rather than reported as zeros
+export function parseDailyEntries(series: SeriesValues, latitude: number, longitude: number, timezone: string): DailyWeatherEntry[] {
+  const daily = series as DailyWeatherSeries;
+  return daily.time.flatMap((date: string, index: number): DailyWeatherEntry[] => {
+    const temperatureMax = daily.temperature_2m_max[index];
+    const temperatureMin = daily.temperature_2m_min[index];
+    const weatherCode = daily.weather_code[index];
+    const humidity = daily.relative_humidity_2m_max[index];
+    const windSpeed = daily.wind_speed_10m_max[index];
+    const precipitation = daily.precipitation_sum[index];
+    const uvIndex = daily.uv_index_max[index];
+    if (temperatureMax == null || temperatureMin == null || weatherCode == null || humidity == null
+      || windSpeed == null || precipitation == null || uvIndex == null) {
+      return [];
+    }
+
+    const { sunrise, sunset } = getSunTimes(latitude, longitude, date, timezone);
+
+    return [{
+      date,
+      temperatureMax: Math.round(temperatureMax),
+      temperatureMin: Math.round(temperatureMin),
+      weatherCode,
+      description: getWeatherDescription(weatherCode),
+      humidity,
+      windSpeed,
+      precipitation,
+      uvIndex,
+      apparentTemperatureMax: roundOrNull(daily.apparent_temperature_max?.[index]),
+      apparentTemperatureMin: roundOrNull(daily.apparent_temperature_min?.[index]),
+      windGusts: daily.wind_gusts_10m_max?.[index] ?? null,
+      sunrise,
+      sunset
+    }];
+  });
+}
+
 // Execute weather tool
-export async function executeWeatherTool(params: WeatherToolParams): Promise<WeatherToolResponse> {
-  console.log('🛠️ Executing weather tool:', params);
+export async function executeWeatherTool(params: WeatherToolParams, options: WeatherToolOptions = {}): Promise<WeatherToolResponse> {
+  const units = options.units || 'metric';
+  console.log('🛠️ Executing weather tool:', params, units);
   
   try {
     // 1. Get coordinates
-    const coords = await getCoordinates(params.location);
+    const coords = await getCoordinates(params.location, options.geocodeHints);
     console.log('📍 Coordinates:', coords);
     
-    // 2. Parse date
-    const { targetDate, dateType } = parseDate(params.date);
-    console.log('📅 Date info:', { targetDate, dateType });
+    // 2. Parse date (single date or range)
+    const range = parseDateRange(params);
+    const { targetDate, dateType } = range
+      ? { targetDate: range.startDate, dateType: range.dateType }
+      : parseDate(params.date);
+    const endDate = range ? range.endDate : targetDate;
+    const hourRange = parseHourRange(params);
+    console.log('📅 Date info:', { targetDate, endDate, dateType, hourRange });
     
-    // 3. Build weather API URL
-    let url: string;
-    let weatherParams: URLSearchParams;
+    // 3. Fetch weather data from the configured provider
+    const provider = getWeatherProvider();
+    const request: WeatherRequest = {
+      latitude: coords.lat,
+      longitude: coords.lng,
+      units
+    };
+
+    // Hourly mode: add per-hour variables (the archive has no precipitation probability)
+    // Climate normals are daily only
+    if (hourRange && dateType !== 'climate') {
+      request.hourly = dateType === 'historical' ? HOURLY_ARCHIVE_VARIABLES : HOURLY_VARIABLES;
+    }
+
+    let data: WeatherPayload;
+    let climate: ClimateNormals | null = null;
+    const lastForecastDate = getLastForecastDate();
     
-    if (dateType === 'historical' && targetDate) {
-      // Historical weather
-      weatherParams = new URLSearchParams({
-        latitude: coords.lat.toString(),
-        longitude: coords.lng.toString(),
-        start_date: targetDate,
-        end_date: targetDate,
-        daily: 'temperature_2m_max,temperature_2m_min,relative_humidity_2m_max,precipitation_sum,wind_speed_10m_max,uv_index_max,weather_code',
-        timezone: 'auto'
-      });
-      url = `https://archive-api.open-meteo.com/v1/archive?${weatherParams.toString()}`;
+    if (dateType === 'climate' && targetDate) {
+      // Typical weather from past years
+      climate = await getClimateNormals({ latitude: coords.lat, longitude: coords.lng, startDate: targetDate, endDate: endDate || targetDate, units });
+      data = { timezone: climate.timezone };
+
+    } else if (dateType === 'historical' && targetDate) {
+      // Historical weather; the last few days come from the forecast API until the archive has them
+      const historyRequest = { ...request, startDate: targetDate, endDate: endDate || targetDate, daily: DAILY_VARIABLES };
+      data = isBeforeArchive(historyRequest.endDate)
+        ? await provider.getDaily(historyRequest)
+        : await provider.getArchive(historyRequest);
       
     } else if (dateType === 'forecast' && targetDate) {
-      // Forecast weather
-      weatherParams = new URLSearchParams({
-        latitude: coords.lat.toString(),
-        longitude: coords.lng.toString(),
-        start_date: targetDate,
-        end_date: targetDate,
-        daily: 'temperature_2m_max,temperature_2m_min,relative_humidity_2m_max,precipitation_sum,wind_speed_10m_max,uv_index_max,weather_code',
-        timezone: 'auto'
-      });
-      url = `https://api.open-meteo.com/v1/forecast?${weatherParams.toString()}`;
+      // Forecast weather, with climate normals for days past the horizon
+      const forecastEnd = endDate && endDate > lastForecastDate ? lastForecastDate : endDate || targetDate;
+      data = await provider.getDaily({ ...request, startDate: targetDate, endDate: forecastEnd, daily: DAILY_VARIABLES });
+
+      if (endDate && endDate > lastForecastDate) {
+        climate = await getClimateNormals({ latitude: coords.lat, longitude: coords.lng, startDate: addDays(lastForecastDate, 1), endDate, units });
+      }
       
     } else {
       // Current weather
-      weatherParams = new URLSearchParams({
-        latitude: coords.lat.toString(),
-        longitude: coords.lng.toString(),
-        current: 'temperature_2m,relative_humidity_2m,precipitation,wind_speed_10m,uv_index,weather_code',
-        timezone: 'auto'
-      });
-      url = `https://api.open-meteo.com/v1/forecast?${weatherParams.toString()}`;
-    }
-    
-    // 4. Fetch weather data
-    console.log('🌤️ Fetching weather from:', url);
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Weather API error: ${response.status}`);
+      data = await provider.getCurrent({ ...request, current: CURRENT_VARIABLES, forecastDays: hourRange ? 1 : undefined });
     }
     
-    const data = await response.json();
     
-    // 5. Process weather data
+    // 4. Process weather data
     let weatherResult: WeatherToolResponse;
     
     if (dateType === 'current') {
       // Current weather
-      const current = data.current;
+      const current = data.current as CurrentWeatherValues | undefined;
+      if (!current) {
+        throw new Error('No current weather data available');
+      }
+
       weatherResult = {
         city: coords.city,
         country: coords.country,
+        latitude: coords.lat,
+        longitude: coords.lng,
         temperature: Math.round(current.temperature_2m),
+        weatherCode: current.weather_code,
         description: weatherDescriptions[current.weather_code] || 'Unknown',
         humidity: current.relative_humidity_2m,
         windSpeed: current.wind_speed_10m,
         precipitation: current.precipitation,
         uvIndex: current.uv_index,
         timestamp: current.time,
-        dateType: 'current'
+        dateType: 'current',
+        comfort: getComfortIndices({
+          temperature: current.temperature_2m,
+          humidity: current.relative_humidity_2m,
+          windSpeed: current.wind_speed_10m,
+          dewPoint: current.dew_point_2m,
+          apparentTemperature: current.apparent_temperature,
+          windGusts: current.wind_gusts_10m
+        }, units)
       };
     } else {
-      // Historical/forecast weather
-      const daily = data.daily;
-      if (!daily || !daily.time || daily.time.length === 0) {
-        throw new Error('No weather data available for the requested date');
+      // Historical/forecast weather, then climate normals for any days past the forecast horizon
+      const daily = data.daily as DailyWeatherSeries | undefined;
+      if (dateType !== 'climate' && (!daily || !daily.time || daily.time.length === 0)) {
+        throw new WeatherDateError('No weather data available for the requested date');
       }
       
+      const forecastEntries = daily && dateType !== 'climate' ? parseDailyEntries(daily, coords.lat, coords.lng, data.timezone) : [];
+      const dailyEntries: DailyWeatherEntry[] = [...forecastEntries, ...(climate ? climate.days : [])];
+      if (dailyEntries.length === 0) {
+        throw new WeatherDateError('No weather data available for the requested date');
+      }
+
       const dayIndex = 0; // First day
+      const firstDay = dailyEntries[dayIndex];
+      const apparentTemperature = firstDay.apparentTemperatureMax !== null && firstDay.apparentTemperatureMin !== null
+        ? (firstDay.apparentTemperatureMax + firstDay.apparentTemperatureMin) / 2
+        : null;
+
       weatherResult = {
         city: coords.city,
         country: coords.country,
-        temperature: Math.round((daily.temperature_2m_max[dayIndex] + daily.temperature_2m_min[dayIndex]) / 2),
-        description: weatherDescriptions[daily.weather_code[dayIndex]] || 'Unknown',
-        humidity: daily.relative_humidity_2m_max[dayIndex],
-        windSpeed: daily.wind_speed_10m_max[dayIndex],
-        precipitation: daily.precipitation_sum[dayIndex],
-        uvIndex: daily.uv_index_max[dayIndex],
-        timestamp: daily.time[dayIndex],
+        latitude: coords.lat,
+        longitude: coords.lng,
+        temperature: Math.round((firstDay.temperatureMax + firstDay.temperatureMin) / 2),
+        weatherCode: firstDay.weatherCode,
+        description: firstDay.description,
+        humidity: firstDay.humidity,
+        windSpeed: firstDay.windSpeed,
+        precipitation: firstDay.precipitation,
+        uvIndex: firstDay.uvIndex,
+        timestamp: firstDay.date,
         dateType,
-        targetDate
+        targetDate,
+        // Indices use the daytime high, the feels-like value spans the whole day
+        comfort: getComfortIndices({
+          temperature: firstDay.temperatureMax,
+          humidity: firstDay.humidity,
+          windSpeed: firstDay.windSpeed,
+          dewPoint: daily?.dew_point_2m_mean?.[dayIndex],
+          apparentTemperature,
+          windGusts: firstDay.windGusts
+        }, units)
       };
+
+      if (climate) {
+        weatherResult.climateYears = climate.years;
+        if (dateType === 'climate') {
+          weatherResult.rainChance = climate.days[dayIndex].rainChance;
+        } else {
+          weatherResult.climateFrom = climate.days[0]?.date;
+        }
+      }
+
+      // Range requests carry one entry per day plus the overall extremes
+      if (range) {
+        weatherResult.endDate = endDate;
+        weatherResult.temperatureMax = Math.max(...dailyEntries.map(day => day.temperatureMax));
+        weatherResult.temperatureMin = Math.min(...dailyEntries.map(day => day.temperatureMin));
+        weatherResult.daily = dailyEntries;
+      }
     }
     
+    // Hourly entries within the requested local hours (Open-Meteo returns local times with timezone=auto)
+    if (hourRange && dateType !== 'climate') {
+      const hourly = data.hourly as HourlyWeatherSeries | undefined;
+      if (!hourly || !hourly.time || hourly.time.length === 0) {
+        throw new WeatherDateError('No hourly weather data available for the requested time');
+      }
+
+      weatherResult.hourly = hourly.time
+        .map((time: string, index: number): HourlyWeatherEntry => ({
+          time,
+          temperature: Math.round(hourly.temperature_2m[index]),
+          precipitationProbability: hourly.precipitation_probability?.[index] ?? null,
+          precipitation: hourly.precipitation[index],
+          windSpeed: hourly.wind_speed_10m[index],
+          weatherCode: hourly.weather_code[index],
+          description: weatherDescriptions[hourly.weather_code[index]] || 'Unknown',
+          apparentTemperature: roundOrNull(hourly.apparent_temperature?.[index]),
+          windGusts: hourly.wind_gusts_10m?.[index] ?? null
+        }))
+        .filter((entry: HourlyWeatherEntry) => {
+          const hour = parseInt(entry.time.slice(11, 13), 10);
+          return hour >= hourRange.startHour && hour <= hourRange.endHour;
+        });
+    }
+
+    weatherResult.timezone = data.timezone;
+    weatherResult.units = units;
+    weatherResult.cache = combineCacheStatus([data.cache, ...(climate ? [climate.cache] : [])]);
+    weatherResult.sun = getSunTimes(coords.lat, coords.lng, targetDate || getLocalDate(data.timezone), data.timezone);
+    // Alerts describe expected conditions, so averages from past years never raise them
+    weatherResult.alerts = dateType === 'climate' ? [] : getWeatherAlerts({
+      ...weatherResult,
+      daily: weatherResult.daily?.filter(day => !weatherResult.climateFrom || day.date < weatherResult.climateFrom)
+    });
+
     console.log('✅ Weather tool result:', weatherResult);
     return weatherResult;
     
@@ -279,4 +663,21 @@ export async function executeWeatherTool(params: WeatherToolParams): Promise<Wea
     console.error('❌ Weather tool error:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Registry entry for the chat routes
+export const weatherChatTool: ChatTool<WeatherToolParams, WeatherToolResponse> = {
+  definition: weatherTool,
+  validate: validateWeatherToolParams,
+  execute: (params, { units, geocodeHints }) => executeWeatherTool(params, { units, geocodeHints }),
+  localizeError: (error, language) => {
+    const ja = language === 'ja';
+    if (error instanceof WeatherDateError) {
+      return ja ? 'その日付の天気データを取得できませんでした。' : "Couldn't get weather data for that date.";
+    }
+    // Anything else is the weather or geocoding service failing (timeouts, server errors)
+    return ja
+      ? '天気サービスに接続できません。しばらくしてからもう一度お試しください。'
+      : 'The weather service is unavailable right now, please try again later.';
+  }
+};
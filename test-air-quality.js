@@ -0,0 +1,44 @@
+// Unit tests for the air quality tool, run against the offline fixture provider
+// Run with: node --import jiti/register --test test-air-quality.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { executeAirQualityTool, getAqiCategory, getPollenLevel } from './lib/airQualityTools';
+
+setWeatherProvider(new FixtureWeatherProvider());
+
+test('US AQI categories', () => {
+  assert.equal(getAqiCategory(42), 'good');
+  assert.equal(getAqiCategory(100), 'moderate');
+  assert.equal(getAqiCategory(183), 'unhealthy');
+  assert.equal(getAqiCategory(420), 'hazardous');
+  assert.equal(getAqiCategory(null), 'unknown');
+});
+
+test('pollen level uses the highest pollen type', () => {
+  const pollen = { alder: 0, birch: 2, grass: 35, mugwort: null, olive: 0, ragweed: 0 };
+  assert.equal(getPollenLevel(pollen), 'moderate');
+  assert.equal(getPollenLevel(null), null);
+});
+
+test('current air quality for Delhi', async () => {
+  const result = await executeAirQualityTool({ location: 'Delhi' });
+  assert.equal(result.dateType, 'current');
+  assert.equal(result.usAqi, 183);
+  assert.equal(result.category, 'unhealthy');
+  assert.equal(result.pm2_5, 118);
+  assert.equal(result.pollen, null);
+});
+
+test('a forecast date returns the peak hour', async () => {
+  const result = await executeAirQualityTool({ location: 'Paris', date: 'tomorrow' });
+  assert.equal(result.dateType, 'forecast');
+  assert.ok(result.usAqi > 46);
+  assert.ok(result.pollen.grass > 22);
+  assert.equal(result.pollenLevel, 'moderate');
+});
+
+test('dates beyond the forecast are rejected', async () => {
+  await assert.rejects(executeAirQualityTool({ location: 'Tokyo', date: '2099-01-01' }), /only available up to 5 days/);
+});
@@ -1,4 +1,7 @@
 // Test the API endpoint directly
+// Run with: npx jiti test-api-call.js (needs the dev server on port 3000)
+import { readChatResponse } from './test-helpers';
+
 async function testChatAPI() {
   console.log('🧪 Testing /api/chat endpoint...\n');
   
@@ -25,13 +28,13 @@ async function testChatAPI() {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
     
-    const result = await response.json();
+    const result = await readChatResponse(response);
     console.log('✅ API Response:', result);
     console.log('   - Tool used:', result.toolUsed);
     console.log('   - Response:', result.response?.substring(0, 100) + '...');
     
     if (result.weatherData) {
-      console.log('   - Weather data:', result.weatherData.city, result.weatherData.temperature + '°C');
+      console.log('   - Weather data:', result.weatherData[0].city, result.weatherData[0].temperature + '°C');
     }
     
   } catch (error) {
@@ -70,7 +73,7 @@ async function testFollowUpQuery() {
       })
     });
     
-    const result = await response.json();
+    const result = await readChatResponse(response);
     console.log('✅ Follow-up Response:', result);
     console.log('   - Tool used:', result.toolUsed);
     console.log('   - Response:', result.response?.substring(0, 100) + '...');
@@ -0,0 +1,55 @@
+// Unit tests for the local sunrise/sunset calculation
+// Run with: node --import jiti/register --test test-astronomy.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSunTimes, formatDaylight } from './lib/astronomy';
+import { executeSunTimesTool } from './lib/astronomyTools';
+
+// Minutes between two local HH:mm times
+function minutesApart(a, b) {
+  const toMinutes = time => parseInt(time.slice(11, 13), 10) * 60 + parseInt(time.slice(14, 16), 10);
+  return Math.abs(toMinutes(a) - toMinutes(b));
+}
+
+test('Tokyo in autumn matches published times within two minutes', () => {
+  const sun = getSunTimes(35.6762, 139.6503, '2026-10-19', 'Asia/Tokyo');
+  assert.ok(minutesApart(sun.sunrise, '2026-10-19T05:51') <= 2);
+  assert.ok(minutesApart(sun.sunset, '2026-10-19T17:02') <= 2);
+  assert.equal(sun.polar, undefined);
+});
+
+test('London at midsummer uses local summer time', () => {
+  const sun = getSunTimes(51.5074, -0.1278, '2026-06-21', 'Europe/London');
+  assert.ok(minutesApart(sun.sunrise, '2026-06-21T04:43') <= 2);
+  assert.ok(minutesApart(sun.sunset, '2026-06-21T21:21') <= 2);
+  assert.ok(sun.daylightMinutes > 16 * 60);
+});
+
+test('golden hours sit inside the day', () => {
+  const sun = getSunTimes(35.0116, 135.7681, '2026-10-19', 'Asia/Tokyo');
+  assert.equal(sun.goldenHourMorning.start, sun.sunrise);
+  assert.ok(sun.goldenHourMorning.end > sun.sunrise);
+  assert.equal(sun.goldenHourEvening.end, sun.sunset);
+  assert.ok(sun.civilDusk > sun.sunset);
+});
+
+test('polar night and midnight sun', () => {
+  const winter = getSunTimes(69.65, 18.96, '2026-12-21', 'Europe/Oslo');
+  assert.equal(winter.polar, 'night');
+  assert.equal(winter.sunrise, null);
+  assert.equal(winter.daylightMinutes, 0);
+
+  const summer = getSunTimes(69.65, 18.96, '2026-06-21', 'Europe/Oslo');
+  assert.equal(summer.polar, 'day');
+  assert.equal(summer.daylightMinutes, 24 * 60);
+});
+
+test('tool returns one entry per day in the city timezone', async () => {
+  const result = await executeSunTimesTool({ location: 'Tokyo', date: '2026-10-19', days: 3 });
+  assert.equal(result.timezone, 'Asia/Tokyo');
+  assert.deepEqual(result.days.map(day => day.date), ['2026-10-19', '2026-10-20', '2026-10-21']);
+});
+
+test('daylight formatting', () => {
+  assert.equal(formatDaylight(670), '11h 10m');
+});
@@ -0,0 +1,103 @@
+// Unit tests for the request cache, its storage adapters and the caching weather provider
+// Run with: node --import jiti/register --test test-cache.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { RequestCache, combineCacheStatus } from './lib/cache';
+import { MemoryCacheAdapter, FileCacheAdapter } from './lib/cacheStorage';
+import { CachedWeatherProvider } from './lib/cachedWeatherProvider';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { executeWeatherTool } from './lib/weatherTools';
+
+test('values are served from the cache until they expire', async () => {
+  const cache = new RequestCache(new MemoryCacheAdapter());
+  let loads = 0;
+  const load = async () => ++loads;
+
+  const first = await cache.getOrLoad('key', 60000, load);
+  const second = await cache.getOrLoad('key', 60000, load);
+  assert.equal(first.cache.hit, false);
+  assert.equal(second.cache.hit, true);
+  assert.equal(second.value, 1);
+  assert.equal(second.cache.fetchedAt, first.cache.fetchedAt);
+
+  const expired = await cache.getOrLoad('short', -1, load);
+  const reloaded = await cache.getOrLoad('short', -1, load);
+  assert.equal(expired.cache.hit, false);
+  assert.equal(reloaded.cache.hit, false);
+  assert.equal(loads, 3);
+});
+
+test('parallel loads of one key share a single request', async () => {
+  const cache = new RequestCache(new MemoryCacheAdapter());
+  let loads = 0;
+  const load = () => new Promise(resolve => setTimeout(() => resolve(++loads), 20));
+
+  const results = await Promise.all([1, 2, 3].map(() => cache.getOrLoad('key', 60000, load)));
+  assert.equal(loads, 1);
+  assert.deepEqual(results.map(result => result.value), [1, 1, 1]);
+  assert.equal(results.filter(result => result.cache.shared).length, 2);
+});
+
+test('parallel loads share a single request with file storage too', async () => {
+  // Later reads return only after the first load has been stored, as on a busy disk
+  class SlowFileCacheAdapter extends FileCacheAdapter {
+    reads = 0;
+
+    async get(key) {
+      const delay = this.reads++ * 50;
+      const entry = await super.get(key);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return entry;
+    }
+  }
+  const cache = new RequestCache(new SlowFileCacheAdapter(mkdtempSync(path.join(tmpdir(), 'weather-cache-'))));
+  let loads = 0;
+  const load = async () => ++loads;
+
+  const results = await Promise.all([cache.getOrLoad('key', 60000, load), cache.getOrLoad('key', 60000, load)]);
+  assert.equal(loads, 1);
+  assert.deepEqual(results.map(result => result.value), [1, 1]);
+});
+
+test('the memory adapter drops the oldest entries past its limit', async () => {
+  const storage = new MemoryCacheAdapter(2);
+  const entry = value => ({ value, storedAt: 0, expiresAt: Infinity });
+  await storage.set('a', entry(1));
+  await storage.set('b', entry(2));
+  await storage.set('c', entry(3));
+  assert.equal(await storage.get('a'), null);
+  assert.equal((await storage.get('c')).value, 3);
+});
+
+test('the file adapter persists entries across instances', async () => {
+  const directory = mkdtempSync(path.join(tmpdir(), 'weather-cache-'));
+  const entry = { value: { city: 'Tokyo' }, storedAt: Date.now(), expiresAt: Date.now() + 60000 };
+
+  await new FileCacheAdapter(directory).set('https://example.com/?a=1&b=2', entry);
+  assert.deepEqual(await new FileCacheAdapter(directory).get('https://example.com/?a=1&b=2'), entry);
+
+  await new FileCacheAdapter(directory).clear();
+  assert.equal(await new FileCacheAdapter(directory).get('https://example.com/?a=1&b=2'), null);
+});
+
+test('tool results report cache hits', async () => {
+  setWeatherProvider(new CachedWeatherProvider(new FixtureWeatherProvider(), new RequestCache(new MemoryCacheAdapter())));
+
+  const first = await executeWeatherTool({ location: 'Kyoto', date: 'tomorrow' });
+  const second = await executeWeatherTool({ location: 'Kyoto', date: 'tomorrow' });
+  assert.equal(first.cache.hit, false);
+  assert.equal(second.cache.hit, true);
+  assert.equal(second.temperature, first.temperature);
+});
+
+test('combined status is a hit only when every fetch was', () => {
+  const hit = { hit: true, fetchedAt: '2026-01-02T00:00:00.000Z' };
+  const miss = { hit: false, fetchedAt: '2026-01-03T00:00:00.000Z' };
+  assert.deepEqual(combineCacheStatus([hit, miss]), { hit: false, fetchedAt: hit.fetchedAt });
+  assert.equal(combineCacheStatus([hit, undefined]).hit, true);
+  assert.equal(combineCacheStatus([undefined]), undefined);
+});
@@ -0,0 +1,51 @@
+// Unit tests for the Server-Sent Events reader shared by the chat client and the LLM client
+// Run with: node --import jiti/register --test test-chat-stream.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readServerSentEvents } from './lib/chatStream';
+
+// A body that delivers the given strings as separate chunks
+function streamOf(...chunks) {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    }
+  });
+}
+
+async function collect(body) {
+  const events = [];
+  for await (const data of readServerSentEvents(body)) {
+    events.push(data);
+  }
+  return events;
+}
+
+test('events split across chunks are joined', async () => {
+  const events = await collect(streamOf('data: {"a":', '1}\n\ndata: two\n', '\n'));
+  assert.deepEqual(events, ['{"a":1}', 'two']);
+});
+
+test('CRLF line endings separate events', async () => {
+  const events = await collect(streamOf('data: one\r\n\r\ndata: two\r\n\r\n'));
+  assert.deepEqual(events, ['one', 'two']);
+});
+
+test('a CRLF split between chunks is one line ending', async () => {
+  const events = await collect(streamOf('data: one\r', '\ndata: more\r\n\r', '\ndata: two\r\n\r\n'));
+  assert.deepEqual(events, ['one\nmore', 'two']);
+});
+
+test('the last event is read without a trailing blank line', async () => {
+  assert.deepEqual(await collect(streamOf('data: one\n\ndata: [DONE]')), ['one', '[DONE]']);
+  assert.deepEqual(await collect(streamOf('data: one\r\n\r\ndata: two\r')), ['one', 'two']);
+});
+
+test('comments and other fields are skipped', async () => {
+  const events = await collect(streamOf(': keep-alive\n\nevent: ping\nid: 1\n\ndata: one\n\n'));
+  assert.deepEqual(events, ['one']);
+});
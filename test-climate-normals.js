@@ -0,0 +1,50 @@
+// Unit tests for climate normals and the get_weather climate mode, run against the offline fixture provider
+// Run with: node --import jiti/register --test test-climate-normals.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { executeWeatherTool, addDays, getLastForecastDate } from './lib/weatherTools';
+import { getClimateNormals } from './lib/climateNormals';
+
+setWeatherProvider(new FixtureWeatherProvider());
+
+const today = new Date().toISOString().split('T')[0];
+
+test('climate normals average past years for each day', async () => {
+  const startDate = addDays(today, 40);
+  const normals = await getClimateNormals({ latitude: 35.6762, longitude: 139.6503, startDate, endDate: addDays(startDate, 2) });
+  assert.equal(normals.timezone, 'Asia/Tokyo');
+  assert.equal(normals.years.length, 5);
+  assert.deepEqual(normals.days.map(day => day.date), [startDate, addDays(startDate, 1), addDays(startDate, 2)]);
+  for (const day of normals.days) {
+    assert.ok(day.rainChance >= 0 && day.rainChance <= 100);
+    assert.ok(day.temperatureMax >= day.temperatureMin);
+  }
+});
+
+test('dates past the forecast horizon return climate mode instead of failing', async () => {
+  const date = addDays(today, 60);
+  const result = await executeWeatherTool({ location: 'Paris', date });
+  assert.equal(result.dateType, 'climate');
+  assert.equal(result.targetDate, date);
+  assert.ok(result.rainChance >= 0 && result.rainChance <= 100);
+  assert.equal(result.climateYears.length, 5);
+  assert.deepEqual(result.alerts, []);
+});
+
+test('ranges crossing the horizon append climate days', async () => {
+  const result = await executeWeatherTool({ location: 'London', startDate: addDays(getLastForecastDate(), -1), days: 4 });
+  assert.equal(result.dateType, 'forecast');
+  assert.equal(result.climateFrom, addDays(getLastForecastDate(), 1));
+  assert.equal(result.daily.length, 4);
+  assert.equal(result.daily.filter(day => day.rainChance !== undefined).length, 2);
+});
+
+test('imperial climate values are converted', async () => {
+  const date = addDays(today, 30);
+  const metric = await executeWeatherTool({ location: 'Delhi', date });
+  const imperial = await executeWeatherTool({ location: 'Delhi', date }, { units: 'imperial' });
+  assert.ok(imperial.temperature > metric.temperature);
+  assert.equal(imperial.units, 'imperial');
+});
@@ -0,0 +1,51 @@
+// Unit tests for the shared comfort indices
+// Run with: node --import jiti/register --test test-comfort-indices.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateDewPoint,
+  calculateHeatIndex,
+  calculateWindChill,
+  calculateHumidex,
+  getComfortIndices
+} from './lib/comfortIndices';
+
+test('dew point', () => {
+  assert.equal(calculateDewPoint(30, 70), 23.9);
+  assert.equal(calculateDewPoint(10, 100), 10);
+});
+
+test('heat index only when hot and humid', () => {
+  assert.equal(calculateHeatIndex(32, 70), 40.4);
+  assert.equal(calculateHeatIndex(25, 90), null);
+  assert.equal(calculateHeatIndex(35, 20), null);
+});
+
+test('wind chill only when cold and windy', () => {
+  assert.equal(calculateWindChill(-5, 30), -13);
+  assert.equal(calculateWindChill(15, 30), null);
+  assert.equal(calculateWindChill(0, 3), null);
+});
+
+test('humidex', () => {
+  assert.equal(calculateHumidex(30, 15), 34);
+  assert.equal(calculateHumidex(15, 10), null);
+});
+
+test('provider apparent temperature wins over the calculated one', () => {
+  const comfort = getComfortIndices({ temperature: 33, humidity: 65, windSpeed: 10, apparentTemperature: 38.2, windGusts: 25 });
+
+  assert.equal(comfort.apparentTemperature, 38.2);
+  assert.equal(comfort.windGusts, 25);
+  assert.ok(comfort.heatIndex > 33);
+  assert.equal(comfort.windChill, null);
+  assert.ok(comfort.dewPoint > 20);
+});
+
+test('calculated feels-like when the provider has none', () => {
+  const comfort = getComfortIndices({ temperature: -5, humidity: 60, windSpeed: 30 });
+
+  assert.equal(comfort.apparentTemperature, comfort.windChill);
+  assert.equal(comfort.heatIndex, null);
+  assert.equal(comfort.humidex, null);
+});
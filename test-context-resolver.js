@@ -0,0 +1,101 @@
+// Unit tests for the session context resolver
+// Run with: node --import jiti/register --test test-context-resolver.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveContext, detectExplicitDate, detectExplicitLocation } from './lib/contextResolver';
+
+// Wednesday
+const today = new Date('2025-10-15T09:00:00Z');
+
+function sessionContext({ city = 'Tokyo', country = 'Japan', timeframe = 'current', targetDate = null } = {}) {
+  const location = { city, country, latitude: 35.68, longitude: 139.69, timezone: 'Asia/Tokyo', lastUsed: today.toISOString() };
+  return {
+    location: { current: location, recent: [location], preferences: [] },
+    temporal: { currentTimeframe: timeframe, targetDate, recentDates: [] },
+    conversation: { lastWeatherQuery: `weather in ${city}`, queryIntent: 'weather', followUpContext: null, conversationFlow: [] },
+    preferences: { language: 'en', units: 'metric', detailLevel: 'basic', favoriteLocations: [] },
+    session: { startTime: today.toISOString(), lastActivity: today.toISOString(), messageCount: 2 }
+  };
+}
+
+test('English relative dates', () => {
+  assert.deepEqual(detectExplicitDate('how about yesterday?', 'en', today), { expression: 'yesterday', dateType: 'historical', targetDate: '2025-10-14' });
+  assert.equal(detectExplicitDate('and the day after tomorrow', 'en', today).targetDate, '2025-10-17');
+  assert.equal(detectExplicitDate('weather in 5 days', 'en', today).targetDate, '2025-10-20');
+  assert.equal(detectExplicitDate('3 days ago in Paris', 'en', today).targetDate, '2025-10-12');
+  assert.equal(detectExplicitDate('next monday', 'en', today).targetDate, '2025-10-20');
+  assert.equal(detectExplicitDate('rain on October 20th?', 'en', today).targetDate, '2025-10-20');
+  assert.equal(detectExplicitDate('weather today', 'en', today).dateType, 'current');
+  assert.equal(detectExplicitDate('is it windy?', 'en', today), null);
+});
+
+test('Japanese relative dates', () => {
+  assert.deepEqual(detectExplicitDate('あさっては？', 'ja', today), { expression: 'あさって', dateType: 'forecast', targetDate: '2025-10-17' });
+  assert.equal(detectExplicitDate('一昨日の東京の天気', 'ja', today).targetDate, '2025-10-13');
+  assert.equal(detectExplicitDate('昨日は？', 'ja', today).targetDate, '2025-10-14');
+  assert.equal(detectExplicitDate('明日の天気', 'ja', today).targetDate, '2025-10-16');
+  assert.equal(detectExplicitDate('３日後は？', 'ja', today).targetDate, '2025-10-18');
+  assert.equal(detectExplicitDate('10月1日の京都', 'ja', today).dateType, 'historical');
+  assert.equal(detectExplicitDate('今の天気', 'ja', today).dateType, 'current');
+  assert.equal(detectExplicitDate('今週の天気', 'ja', today), null);
+  assert.equal(detectExplicitDate('今週の土曜日は？', 'ja', today).targetDate, '2025-10-18');
+  assert.equal(detectExplicitDate('今月の雨', 'ja', today), null);
+});
+
+test('explicit locations', () => {
+  assert.equal(detectExplicitLocation('What is the weather in New York tomorrow?', 'en'), 'New York');
+  assert.equal(detectExplicitLocation('how about London?', 'en'), 'London');
+  assert.equal(detectExplicitLocation('Paris weather', 'en'), 'Paris');
+  assert.equal(detectExplicitLocation('how about yesterday?', 'en'), null);
+  assert.equal(detectExplicitLocation('what should I wear for my walk?', 'en'), null);
+  assert.equal(detectExplicitLocation('明日の大阪の天気は？', 'ja'), '大阪');
+  assert.equal(detectExplicitLocation('京都は？', 'ja'), '京都');
+  assert.equal(detectExplicitLocation('あさっては？', 'ja'), null);
+});
+
+test('date-only follow-up keeps the session location', () => {
+  const resolution = resolveContext('how about yesterday?', sessionContext(), { language: 'en', today });
+
+  assert.equal(resolution.isFollowUp, true);
+  assert.deepEqual(resolution.location, { city: 'Tokyo', country: 'Japan', source: 'session' });
+  assert.deepEqual(resolution.temporal, { dateType: 'historical', targetDate: '2025-10-14', source: 'query' });
+  assert.equal(resolution.needsLocationInput, false);
+  assert.equal(resolution.contextualQuery, 'how about yesterday? in Tokyo');
+});
+
+test('Japanese date-only follow-up keeps the session location', () => {
+  const resolution = resolveContext('あさっては？', sessionContext(), { language: 'ja', today });
+
+  assert.equal(resolution.location.city, 'Tokyo');
+  assert.deepEqual(resolution.temporal, { dateType: 'forecast', targetDate: '2025-10-17', source: 'query' });
+  assert.equal(resolution.contextualQuery, 'Tokyoのあさっては？');
+});
+
+test('location-only follow-up keeps the session date', () => {
+  const context = sessionContext({ timeframe: 'forecast', targetDate: '2025-10-16' });
+  const resolution = resolveContext('what about Osaka?', context, { language: 'en', today });
+
+  assert.deepEqual(resolution.location, { city: 'Osaka', source: 'query' });
+  assert.deepEqual(resolution.temporal, { dateType: 'forecast', targetDate: '2025-10-16', source: 'session' });
+  assert.equal(resolution.contextualQuery, 'what about Osaka?');
+});
+
+test('new session without a location needs input', () => {
+  const resolution = resolveContext('will it rain?', null, { language: 'en', today });
+
+  assert.equal(resolution.location, null);
+  assert.equal(resolution.needsLocationInput, true);
+  assert.equal(resolution.isFollowUp, false);
+  assert.equal(resolution.temporal.source, 'default');
+});
+
+test('recent locations are recognised without a preposition', () => {
+  const resolution = resolveContext('tokyo tomorrow?', sessionContext({ city: 'London', country: 'UK' }), {
+    language: 'en',
+    today,
+    knownLocations: ['Tokyo']
+  });
+
+  assert.equal(resolution.location.city, 'Tokyo');
+  assert.equal(resolution.temporal.targetDate, '2025-10-16');
+});
@@ -0,0 +1,73 @@
+// Unit tests for the offline gazetteer lookup
+// Run with: node --import jiti/register --test test-gazetteer.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { searchGazetteer, normalizePlaceName } from './lib/gazetteer';
+import { getCoordinates } from './lib/weatherTools';
+
+const names = query => searchGazetteer(query).map(match => match.name);
+
+test('names are normalized before matching', () => {
+  assert.equal(normalizePlaceName('  São Paulo '), 'sao paulo');
+  assert.equal(normalizePlaceName("Xi'an"), 'xian');
+  assert.equal(normalizePlaceName('Washington, D.C.'), 'washington dc');
+  assert.equal(normalizePlaceName('ＮＹＣ'), 'nyc');
+});
+
+test('aliases and Japanese names find the city', () => {
+  assert.deepEqual(names('Bombay'), ['Mumbai']);
+  assert.deepEqual(names('東京'), ['Tokyo']);
+  assert.deepEqual(names('大阪市'), ['Osaka']);
+  assert.deepEqual(names('NYC'), ['New York']);
+  assert.deepEqual(names('Munchen'), ['Munich']);
+  assert.deepEqual(names('Washington, D.C.'), ['Washington']);
+
+  const [tokyo] = searchGazetteer('tokyo');
+  assert.equal(tokyo.country, 'Japan');
+  assert.equal(tokyo.countryCode, 'JP');
+  assert.equal(tokyo.timezone, 'Asia/Tokyo');
+  assert.equal(tokyo.ja, '東京');
+});
+
+test('country names resolve to the capital', () => {
+  assert.deepEqual(names('France'), ['Paris']);
+  assert.deepEqual(names('日本'), ['Tokyo']);
+  assert.deepEqual(names('UK'), ['London']);
+  assert.equal(searchGazetteer('India')[0].match, 'country');
+});
+
+test('small typos match, short or unknown names do not', () => {
+  assert.deepEqual(names('Varansi'), ['Varanasi']);
+  assert.deepEqual(names('Dehli'), ['Delhi']);
+  assert.equal(searchGazetteer('Dehli')[0].match, 'fuzzy');
+  assert.deepEqual(names('Lond'), []);
+  assert.deepEqual(names('Springfield'), []);
+  // Real places one edit too far from a known city must not be swallowed by it
+  for (const place of ['Boston', 'Zurich', 'Porto', 'Durban', 'Bergen', 'Cairns', 'Raipur']) {
+    assert.deepEqual(names(place), [], place);
+  }
+});
+
+test('qualifiers must match the country or region', () => {
+  assert.deepEqual(names('Paris, France'), ['Paris']);
+  assert.deepEqual(names('京都, 日本'), ['Kyoto']);
+  assert.deepEqual(names('Mumbai, Maharashtra'), ['Mumbai']);
+  assert.deepEqual(names('Paris, Texas'), []);
+});
+
+test('known places resolve without a network geocoder', async () => {
+  setWeatherProvider({
+    name: 'offline',
+    geocode: async () => { throw new Error('network unavailable'); }
+  });
+
+  const coords = await getCoordinates('ムンバイ');
+  assert.equal(coords.city, 'Mumbai');
+  assert.equal(coords.timezone, 'Asia/Kolkata');
+  await assert.rejects(getCoordinates('Springfield'), /network unavailable/);
+  // Unknown places fall through to the remote geocoder
+  await assert.rejects(getCoordinates('Boston'), /network unavailable/);
+  await assert.rejects(getCoordinates('Zurich'), /network unavailable/);
+  await assert.rejects(getCoordinates('Porto'), /network unavailable/);
+});
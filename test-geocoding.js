@@ -0,0 +1,55 @@
+// Unit tests for place name resolution and disambiguation, run against the offline fixture provider
+// Run with: node --import jiti/register --test test-geocoding.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { resolveLocation, AmbiguousLocationError } from './lib/geocoding';
+import { getCoordinates } from './lib/weatherTools';
+
+setWeatherProvider(new FixtureWeatherProvider());
+
+test('a much larger city wins without asking', async () => {
+  const resolution = await resolveLocation('Paris');
+  assert.equal(resolution.ambiguous, false);
+  assert.equal(resolution.location.country, 'France');
+});
+
+test('region and country hints pick the matching place', async () => {
+  const texas = await resolveLocation('Paris, Texas');
+  assert.equal(texas.ambiguous, false);
+  assert.equal(texas.location.admin1, 'Texas');
+
+  const usa = await resolveLocation('Paris, USA');
+  assert.equal(usa.location.countryCode, 'US');
+
+  const coords = await getCoordinates('Springfield, Illinois');
+  assert.equal(coords.lat, 39.8017);
+});
+
+test('similar-sized places are ambiguous and list every candidate', async () => {
+  const resolution = await resolveLocation('Springfield');
+  assert.equal(resolution.ambiguous, true);
+  assert.deepEqual(resolution.candidates.map(candidate => candidate.admin1), ['Missouri', 'Massachusetts', 'Illinois']);
+  assert.equal(resolution.candidates[2].label, 'Springfield, Illinois, United States');
+
+  await assert.rejects(getCoordinates('Springfield'), error => {
+    assert.ok(error instanceof AmbiguousLocationError);
+    assert.equal(error.candidates.length, 3);
+    return true;
+  });
+});
+
+test('a recent session location settles an ambiguous name', async () => {
+  const coords = await getCoordinates('Springfield', { recentLocations: [{ latitude: 42.1, longitude: -72.6 }] });
+  assert.equal(coords.lat, 42.1015);
+});
+
+test('the chosen candidate label resolves to that place', async () => {
+  const { candidates } = await resolveLocation('Springfield');
+  for (const candidate of candidates) {
+    const resolution = await resolveLocation(candidate.label);
+    assert.equal(resolution.ambiguous, false);
+    assert.equal(resolution.location.latitude, candidate.latitude);
+  }
+});
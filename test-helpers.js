@@ -0,0 +1,18 @@
+// Shared helpers for the scripts that call the running dev server
+
+// Collect the /api/chat event stream into a single result object
+export async function readChatResponse(response) {
+  const result = { response: '', weatherData: null, toolUsed: false };
+  const text = await response.text();
+
+  for (const rawEvent of text.split('\n\n')) {
+    if (!rawEvent.startsWith('data:')) continue;
+    const event = JSON.parse(rawEvent.slice(5));
+
+    if (event.type === 'weather') result.weatherData = event.weatherData;
+    if (event.type === 'text') result.response += event.delta;
+    if (event.type === 'done') result.toolUsed = event.toolUsed;
+  }
+
+  return result;
+}
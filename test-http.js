@@ -0,0 +1,62 @@
+// Unit tests for the fetch helper's timeouts and retries
+// Run with: node --import jiti/register --test test-http.js
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchWithRetry } from './lib/http';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// Fake fetch answering with the given statuses in turn
+function stubFetch(statuses) {
+  const calls = [];
+  globalThis.fetch = async (url, init) => {
+    calls.push({ url, init });
+    return new Response('{}', { status: statuses[Math.min(calls.length - 1, statuses.length - 1)] });
+  };
+  return calls;
+}
+
+test('server errors are retried until a response succeeds', async () => {
+  const calls = stubFetch([503, 500, 200]);
+
+  const response = await fetchWithRetry('https://example.test', {}, { retries: 2, backoffMs: 1 });
+
+  assert.equal(response.status, 200);
+  assert.equal(calls.length, 3);
+});
+
+test('the last response is returned once retries run out', async () => {
+  const calls = stubFetch([429]);
+
+  const response = await fetchWithRetry('https://example.test', {}, { retries: 1, backoffMs: 1 });
+
+  assert.equal(response.status, 429);
+  assert.equal(calls.length, 2);
+});
+
+test('client errors are not retried', async () => {
+  const calls = stubFetch([404, 200]);
+
+  const response = await fetchWithRetry('https://example.test', {}, { retries: 2, backoffMs: 1 });
+
+  assert.equal(response.status, 404);
+  assert.equal(calls.length, 1);
+});
+
+test('hung requests are aborted after the timeout', async () => {
+  let attempts = 0;
+  globalThis.fetch = (url, init) => new Promise((resolve, reject) => {
+    attempts++;
+    init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+  });
+
+  await assert.rejects(
+    fetchWithRetry('https://example.test', {}, { timeoutMs: 20, retries: 1, backoffMs: 1, label: 'Slow API' }),
+    /Slow API timed out after 20ms/
+  );
+  assert.equal(attempts, 2);
+});
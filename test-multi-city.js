@@ -1,4 +1,7 @@
 // Test multi-city weather queries
+// Run with: npx jiti test-multi-city.js (needs the dev server on port 3000)
+import { readChatResponse } from './test-helpers';
+
 const testMultiCity = async () => {
   const testQueries = [
     "What's the weather in Tokyo and San Francisco?",
@@ -24,7 +27,7 @@ const testMultiCity = async () => {
         })
       });
 
-      const data = await response.json();
+      const data = await readChatResponse(response);
       console.log('✅ Response:', data.response);
       console.log('🛠️ Tool used:', data.toolUsed);
       
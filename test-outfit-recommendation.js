@@ -0,0 +1,76 @@
+// Unit tests for the rule-based outfit recommendations
+// Run with: node --import jiti/register --test test-outfit-recommendation.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { recommendOutfit, getTemperatureBand } from './lib/outfitRecommendation';
+
+function weather(overrides) {
+  return {
+    city: 'Tokyo',
+    country: 'Japan',
+    latitude: 35.68,
+    longitude: 139.69,
+    weatherCode: 0,
+    description: 'Clear sky',
+    timestamp: '2025-10-15T09:00:00Z',
+    dateType: 'current',
+    temperature: 20,
+    humidity: 50,
+    windSpeed: 5,
+    precipitation: 0,
+    uvIndex: 2,
+    ...overrides
+  };
+}
+
+const ids = outfit => [outfit.layers.base, outfit.layers.mid, outfit.layers.outer, outfit.footwear, ...outfit.accessories]
+  .filter(Boolean)
+  .map(item => item.id);
+
+test('temperature bands', () => {
+  assert.equal(getTemperatureBand(30), 'hot');
+  assert.equal(getTemperatureBand(16), 'mild');
+  assert.equal(getTemperatureBand(-1), 'freezing');
+});
+
+test('hot and sunny', () => {
+  const outfit = recommendOutfit(weather({ temperature: 31, humidity: 70, uvIndex: 9 }));
+
+  assert.equal(outfit.band, 'hot');
+  assert.equal(outfit.layers.outer, null);
+  assert.deepEqual(ids(outfit), ['tank_top', 'sandals', 'sunscreen', 'sunglasses', 'hat', 'water_bottle']);
+});
+
+test('cool and rainy', () => {
+  const outfit = recommendOutfit(weather({ temperature: 13, precipitation: 4, windSpeed: 10 }));
+
+  assert.equal(outfit.layers.outer.id, 'rain_jacket');
+  assert.equal(outfit.footwear.id, 'waterproof_shoes');
+  assert.ok(ids(outfit).includes('umbrella'));
+});
+
+test('wind chill pushes the outfit colder', () => {
+  const outfit = recommendOutfit(weather({ temperature: 2, windSpeed: 40 }));
+
+  assert.ok(outfit.conditions.feelsLike < 0);
+  assert.equal(outfit.band, 'freezing');
+  assert.equal(outfit.layers.outer.id, 'down_jacket');
+});
+
+test('hourly precipitation probability suggests an umbrella', () => {
+  const outfit = recommendOutfit(weather({
+    hourly: [
+      { time: '2025-10-15T18:00', temperature: 18, precipitationProbability: 40, precipitation: 0, windSpeed: 8, weatherCode: 3, description: 'Overcast' },
+      { time: '2025-10-15T19:00', temperature: 17, precipitationProbability: 45, precipitation: 0, windSpeed: 8, weatherCode: 3, description: 'Overcast' }
+    ]
+  }));
+
+  assert.equal(outfit.conditions.temperature, 17);
+  assert.ok(ids(outfit).includes('folding_umbrella'));
+});
+
+test('labels follow the requested language', () => {
+  const outfit = recommendOutfit(weather({ temperature: 25 }), { language: 'ja' });
+
+  assert.equal(outfit.layers.base.label, 'Tシャツ');
+});
@@ -0,0 +1,99 @@
+// Unit tests for the bounded tool-calling loop used by /api/chat
+// Run with: node --import jiti/register --test test-tool-loop.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runToolLoop } from './lib/toolLoop';
+
+let nextId = 0;
+
+function toolCall(name, args = {}) {
+  return { id: `call_${++nextId}`, type: 'function', function: { name, arguments: JSON.stringify(args) } };
+}
+
+// Model stub answering with the scripted messages in turn
+function scriptedModel(replies) {
+  const calls = [];
+  const complete = async (conversation, context) => {
+    calls.push({ conversation: [...conversation], ...context });
+    return replies[calls.length - 1];
+  };
+  return { complete, calls };
+}
+
+const echo = async (call) => ({ city: JSON.parse(call.function.arguments).location });
+
+test('tool results are sent back until the model answers', async () => {
+  const model = scriptedModel([
+    { role: 'assistant', content: null, tool_calls: [toolCall('get_weather', { location: 'Tokyo' })] },
+    { role: 'assistant', content: null, tool_calls: [toolCall('get_weather', { location: 'Tokyo', date: 'tomorrow' })] },
+    { role: 'assistant', content: 'Rain today, dry tomorrow.' }
+  ]);
+
+  const loop = await runToolLoop({ complete: model.complete, execute: echo });
+
+  assert.equal(loop.message.content, 'Rain today, dry tomorrow.');
+  assert.equal(loop.stoppedEarly, false);
+  assert.equal(loop.outcomes.length, 2);
+  assert.deepEqual(loop.steps.map(step => step.toolCalls.length), [1, 1, 0]);
+  // The second model call sees the first call and its result
+  assert.deepEqual(model.calls[1].conversation.map(message => message.role), ['assistant', 'tool']);
+  assert.equal(model.calls[1].conversation[1].content, JSON.stringify({ city: 'Tokyo' }));
+  assert.equal(model.calls[2].conversation.length, 4);
+});
+
+test('the last step is marked final and ends the loop', async () => {
+  const keepsCalling = { role: 'assistant', content: null, tool_calls: [toolCall('get_weather', { location: 'Paris' })] };
+  const model = scriptedModel([keepsCalling, keepsCalling, { ...keepsCalling, content: 'Best effort.' }]);
+
+  const loop = await runToolLoop({ complete: model.complete, execute: echo, limits: { maxSteps: 3 } });
+
+  assert.deepEqual(model.calls.map(call => call.final), [false, false, true]);
+  assert.equal(loop.steps.length, 3);
+  assert.equal(loop.outcomes.length, 2);
+  assert.equal(loop.message.content, 'Best effort.');
+});
+
+test('failed and excess calls are answered with errors', async () => {
+  const calls = [
+    toolCall('get_weather', { location: 'Tokyo' }),
+    toolCall('get_weather', { location: 'Nowhere' }),
+    toolCall('get_weather', { location: 'Osaka' })
+  ];
+  const model = scriptedModel([
+    { role: 'assistant', content: null, tool_calls: calls },
+    { role: 'assistant', content: 'Done.' }
+  ]);
+  const execute = async (call) => {
+    if (call.function.arguments.includes('Nowhere')) throw new Error('Location "Nowhere" not found');
+    return echo(call);
+  };
+
+  const loop = await runToolLoop({ complete: model.complete, execute, limits: { maxToolCallsPerStep: 2 } });
+
+  const toolMessages = model.calls[1].conversation.filter(message => message.role === 'tool');
+  assert.deepEqual(toolMessages.map(message => message.tool_call_id), calls.map(call => call.id));
+  assert.match(toolMessages[1].content, /Nowhere\\" not found/);
+  assert.match(toolMessages[2].content, /at most 2 tool calls/);
+  assert.deepEqual(loop.steps[0].toolCalls.map(call => call.status), ['ok', 'error', 'skipped']);
+});
+
+test('the results callback can stop the loop', async () => {
+  const model = scriptedModel([
+    { role: 'assistant', content: null, tool_calls: [toolCall('get_weather', { location: 'Springfield' })] }
+  ]);
+  let seen = [];
+
+  const loop = await runToolLoop({
+    complete: model.complete,
+    execute: echo,
+    onToolResults: async (outcomes) => {
+      seen = outcomes;
+      return true;
+    }
+  });
+
+  assert.equal(loop.stoppedEarly, true);
+  assert.equal(model.calls.length, 1);
+  assert.equal(seen[0].status, 'fulfilled');
+  assert.equal(seen[0].toolCall.function.name, 'get_weather');
+});
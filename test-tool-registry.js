@@ -0,0 +1,99 @@
+// Unit tests for the chat tool registry: dispatch by name, argument validation and localized errors
+// Run with: node --import jiti/register --test test-tool-registry.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolRegistry, UnknownToolError, ToolArgumentError, validateAgainstSchema } from './lib/toolRegistry';
+import { chatToolRegistry } from './lib/chatTools';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { WeatherDateError } from './lib/weatherTools';
+
+setWeatherProvider(new FixtureWeatherProvider());
+
+function toolCall(name, args) {
+  return { id: 'call_1', type: 'function', function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) } };
+}
+
+test('every chat tool is offered to the model under its registered name', () => {
+  assert.deepEqual(
+    chatToolRegistry.definitions.map(definition => definition.function.name),
+    ['get_weather', 'get_air_quality', 'get_sun_times', 'plan_trip', 'get_weather_anomaly']
+  );
+});
+
+test('tool calls are dispatched by name', async () => {
+  const call = await chatToolRegistry.execute(toolCall('get_sun_times', { location: 'Tokyo', date: '2025-06-21' }), { units: 'metric', language: 'en' });
+
+  assert.equal(call.name, 'get_sun_times');
+  assert.equal(call.tool_call_id, 'call_1');
+  assert.equal(call.result.city, 'Tokyo');
+  assert.equal(call.result.days.length, 1);
+});
+
+test('unknown tools are rejected', async () => {
+  await assert.rejects(
+    chatToolRegistry.execute(toolCall('get_horoscope', { sign: 'leo' }), { units: 'metric', language: 'en' }),
+    UnknownToolError
+  );
+});
+
+test('malformed and invalid arguments are rejected before the tool runs', async () => {
+  let runs = 0;
+  const registry = new ToolRegistry({
+    echo: {
+      definition: {
+        type: 'function',
+        function: {
+          name: 'echo',
+          description: 'Echo',
+          parameters: { type: 'object', properties: { text: { type: 'string' }, times: { type: 'integer' } }, required: ['text'] }
+        }
+      },
+      validate: params => params.times !== undefined && params.times < 1 ? ['times must be at least 1'] : [],
+      execute: async params => ++runs && params.text
+    }
+  });
+  const context = { units: 'metric', language: 'en' };
+
+  await assert.rejects(registry.execute(toolCall('echo', '{"text": '), context), /not valid JSON/);
+  await assert.rejects(registry.execute(toolCall('echo', { times: 1.5 }), context), error => {
+    assert.ok(error instanceof ToolArgumentError);
+    assert.deepEqual(error.problems, ['text is required', 'times must be an integer, got number']);
+    return true;
+  });
+  await assert.rejects(registry.execute(toolCall('echo', { text: 'hi', times: 0 }), context), /times must be at least 1/);
+  assert.equal(runs, 0);
+
+  assert.equal((await registry.execute(toolCall('echo', { text: 'hi' }), context)).result, 'hi');
+});
+
+test('nested schemas report the path of the problem', () => {
+  const schema = chatToolRegistry.definitions.find(definition => definition.function.name === 'plan_trip').function.parameters;
+
+  assert.deepEqual(validateAgainstSchema(schema, { legs: [{ location: 'Tokyo' }, { startDate: 3 }] }).sort(), [
+    'legs[0].startDate is required',
+    'legs[1].location is required',
+    'legs[1].startDate must be a string, got integer'
+  ].sort());
+});
+
+test('errors are reported in the user\'s language', async () => {
+  const error = await chatToolRegistry.execute(toolCall('get_weather', { location: 'Atlantis' }), { units: 'metric', language: 'ja' })
+    .catch(error => error);
+
+  const report = chatToolRegistry.describeError('get_weather', error, 'ja');
+  assert.match(report.error, /Atlantis/);
+  assert.equal(report.message, '「Atlantis」という場所が見つかりませんでした。');
+  assert.equal(chatToolRegistry.describeError('get_air_quality', new Error('timeout'), 'en').message, "Couldn't get air quality data.");
+  assert.equal(chatToolRegistry.describeError('get_horoscope', new UnknownToolError('get_horoscope'), 'ja').message, 'このリクエストには対応していません。');
+});
+
+test('weather service failures are not reported as date problems', () => {
+  const dateError = new WeatherDateError('No weather data available for the requested date');
+  const timeout = new Error('Open-Meteo API timed out after 10000ms');
+
+  assert.equal(chatToolRegistry.describeError('get_weather', dateError, 'en').message, "Couldn't get weather data for that date.");
+  assert.equal(chatToolRegistry.describeError('get_weather', dateError, 'ja').message, 'その日付の天気データを取得できませんでした。');
+  assert.equal(chatToolRegistry.describeError('get_weather', timeout, 'en').message, 'The weather service is unavailable right now, please try again later.');
+  assert.equal(chatToolRegistry.describeError('get_weather', new Error('Open-Meteo API error: 503 - Service Unavailable'), 'ja').message, '天気サービスに接続できません。しばらくしてからもう一度お試しください。');
+});
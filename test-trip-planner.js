@@ -0,0 +1,44 @@
+// Unit tests for the trip planner, run against the offline fixture provider
+// Run with: node --import jiti/register --test test-trip-planner.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { addDays } from './lib/weatherTools';
+import { executeTripPlanTool } from './lib/tripPlanner';
+
+setWeatherProvider(new FixtureWeatherProvider());
+
+const today = new Date().toISOString().split('T')[0];
+
+test('legs use forecasts inside the horizon and climate normals beyond it', async () => {
+  const plan = await executeTripPlanTool({
+    legs: [
+      { location: 'Tokyo', startDate: addDays(today, 13), endDate: addDays(today, 15) },
+      { location: 'Kyoto', startDate: addDays(today, 16), days: 3 }
+    ]
+  });
+
+  const [tokyo, kyoto] = plan.legs;
+  assert.deepEqual(tokyo.days.map(day => day.source), ['forecast', 'forecast', 'forecast']);
+  assert.deepEqual(kyoto.days.map(day => day.source), ['climate', 'climate', 'climate']);
+  assert.equal(kyoto.endDate, addDays(today, 18));
+  assert.ok(kyoto.activities.length > 0);
+});
+
+test('a leg crossing the horizon is split', async () => {
+  const plan = await executeTripPlanTool({ legs: [{ location: 'London', startDate: addDays(today, 14), days: 4 }] });
+  assert.deepEqual(plan.legs[0].days.map(day => day.source), ['forecast', 'forecast', 'climate', 'climate']);
+});
+
+test('packing list counts the days each item is needed', async () => {
+  const plan = await executeTripPlanTool({ legs: [{ location: 'Delhi', startDate: 'today', days: 3 }] }, { language: 'ja' });
+  assert.ok(plan.packingList.every(item => item.days >= 1 && item.days <= 3));
+  assert.equal(plan.packingList[0].days, 3);
+  assert.ok(plan.legs[0].days.every(day => day.packing.length > 0));
+});
+
+test('invalid legs are rejected', async () => {
+  await assert.rejects(executeTripPlanTool({ legs: [] }), /at least one leg/);
+  await assert.rejects(executeTripPlanTool({ legs: [{ location: 'Paris', startDate: '2020-01-01', endDate: '2020-01-03' }] }), /in the past/);
+});
@@ -0,0 +1,65 @@
+// Unit tests for runtime validation of model output: weather tool arguments and location replies
+// Run with: node --import jiti/register --test test-validation.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateWeatherToolParams } from './lib/weatherTools';
+import { parseLocationReply } from './lib/weather';
+import { isCalendarDate, checkCoordinates, checkTimezone } from './lib/validation';
+import { chatToolRegistry } from './lib/chatTools';
+import { ToolArgumentError } from './lib/toolRegistry';
+
+test('usable weather arguments pass', () => {
+  assert.deepEqual(validateWeatherToolParams({ location: 'Tokyo' }), []);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Tokyo', date: 'Tomorrow', time: '18:00' }), []);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Paris', startDate: '2025-12-24', endDate: '2025-12-26', hourRange: 'evening' }), []);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Paris', startDate: 'today', days: 5, hourRange: '17:00-21:00' }), []);
+});
+
+test('weather arguments get one descriptive problem per mistake', () => {
+  assert.deepEqual(validateWeatherToolParams({ location: ' ', date: 'next friday' }), [
+    'location must be a city name',
+    `date must be 'today', 'tomorrow', 'yesterday' or a real date in YYYY-MM-DD format, got "next friday"`
+  ]);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Tokyo', date: 'today', days: 3 }), ['use either date or startDate/endDate/days, not both']);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Tokyo', startDate: '2025-05-10', endDate: '2025-05-01' }), ['endDate 2025-05-01 is before startDate 2025-05-10']);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Tokyo', days: 30 }), ['days must be between 1 and 16, got 30']);
+  assert.deepEqual(validateWeatherToolParams({ location: 'Tokyo', time: '25:00' }), ['time must be a 24-hour time like "18:00", got "25:00"']);
+  assert.match(validateWeatherToolParams({ location: 'Tokyo', hourRange: 'after lunch' })[0], /hourRange must be like "17:00-21:00" or one of morning, afternoon, evening, night/);
+});
+
+test('invalid weather arguments are returned to the model instead of running the tool', async () => {
+  const toolCall = { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: JSON.stringify({ location: 'Tokyo', date: '2025-02-30' }) } };
+
+  const error = await chatToolRegistry.execute(toolCall, { units: 'metric', language: 'en' }).catch(error => error);
+
+  assert.ok(error instanceof ToolArgumentError);
+  assert.match(chatToolRegistry.describeError('get_weather', error, 'en').error, /date must be .* got "2025-02-30"/);
+});
+
+test('calendar dates, coordinates and time zones are range-checked', () => {
+  assert.equal(isCalendarDate('2024-02-29'), true);
+  assert.equal(isCalendarDate('2025-02-29'), false);
+  assert.equal(isCalendarDate('2025-13-01'), false);
+  assert.deepEqual(checkCoordinates(35.68, 139.69), []);
+  assert.equal(checkCoordinates(139.69, 35.68).length, 1);
+  assert.equal(checkCoordinates('35', null).length, 2);
+  assert.equal(checkTimezone('timezone', 'Asia/Tokyo'), null);
+  assert.match(checkTimezone('timezone', 'Tokyo/Japan'), /not a known IANA time zone/);
+});
+
+test('location replies are parsed and checked', () => {
+  const valid = { city: 'Tokyo', country: 'Japan', latitude: 35.6762, longitude: 139.6503, timezone: 'Asia/Tokyo', requestTime: '2025-09-24T12:00:00Z', targetDate: null, dateType: 'current' };
+
+  assert.deepEqual(parseLocationReply(JSON.stringify(valid)), { data: valid, problems: [] });
+  // Code fences around the JSON are tolerated
+  assert.deepEqual(parseLocationReply('```json\n' + JSON.stringify(valid) + '\n```').problems, []);
+  // "Which location?" replies are valid, the caller asks the user
+  assert.deepEqual(parseLocationReply(JSON.stringify({ city: null, missingInfo: 'location', errorMessage: 'Which location?' })).problems, []);
+
+  assert.deepEqual(parseLocationReply('Tokyo, Japan').problems, ['the reply is not valid JSON']);
+  assert.deepEqual(parseLocationReply(JSON.stringify({ ...valid, latitude: '35.6762', targetDate: 'tomorrow', dateType: 'future' })).problems, [
+    'latitude must be a number between -90 and 90, got "35.6762"',
+    'targetDate must be null or a real date in YYYY-MM-DD format, got "tomorrow"',
+    'dateType must be one of current, historical, forecast, climate, got "future"'
+  ]);
+});
@@ -0,0 +1,68 @@
+// Unit tests for severe weather alert classification
+// Run with: node --import jiti/register --test test-weather-alerts.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyWeatherAlerts, mergeAlerts, getWeatherAlerts, formatAlertsForPrompt } from './lib/weatherAlerts';
+
+const calmDay = {
+  period: 'day',
+  weatherCode: 1,
+  temperatureMax: 22,
+  temperatureMin: 14,
+  precipitation: 0,
+  windSpeed: 10,
+  windGusts: 20,
+  uvIndex: 4
+};
+
+test('calm weather has no alerts', () => {
+  assert.deepEqual(classifyWeatherAlerts(calmDay), []);
+});
+
+test('thunderstorm with hail is a danger', () => {
+  const [alert] = classifyWeatherAlerts({ ...calmDay, weatherCode: 99 });
+  assert.equal(alert.type, 'thunderstorm');
+  assert.equal(alert.level, 'danger');
+});
+
+test('rain thresholds depend on the period', () => {
+  assert.equal(classifyWeatherAlerts({ ...calmDay, precipitation: 25 }).length, 0);
+  assert.equal(classifyWeatherAlerts({ ...calmDay, period: 'hour', precipitation: 25 })[0].level, 'warning');
+});
+
+test('gusts take precedence over sustained wind', () => {
+  assert.equal(classifyWeatherAlerts({ ...calmDay, windSpeed: 45, windGusts: 50 }).length, 0);
+  assert.equal(classifyWeatherAlerts({ ...calmDay, windSpeed: 45, windGusts: null })[0].type, 'wind');
+});
+
+test('heat uses the feels-like temperature', () => {
+  const [alert] = classifyWeatherAlerts({ ...calmDay, temperatureMax: 31, apparentTemperatureMax: 36 });
+  assert.equal(alert.type, 'heat');
+  assert.equal(alert.level, 'warning');
+});
+
+test('merge keeps the highest level per type, most severe first', () => {
+  const merged = mergeAlerts([
+    { level: 'advisory', type: 'uv', message: { en: '', ja: '' } },
+    { level: 'advisory', type: 'rain', message: { en: '', ja: '' } },
+    { level: 'danger', type: 'rain', message: { en: '', ja: '' } }
+  ]);
+  assert.deepEqual(merged.map(alert => `${alert.type}:${alert.level}`), ['rain:danger', 'uv:advisory']);
+});
+
+test('imperial results are converted before classifying', () => {
+  const alerts = getWeatherAlerts({
+    city: 'Phoenix',
+    dateType: 'today',
+    units: 'imperial',
+    weatherCode: 0,
+    temperature: 104,
+    temperatureMax: 106,
+    temperatureMin: 85,
+    precipitation: 0,
+    windSpeed: 8,
+    uvIndex: 9
+  });
+  assert.deepEqual(alerts.map(alert => `${alert.type}:${alert.level}`), ['heat:danger', 'uv:advisory']);
+  assert.match(formatAlertsForPrompt('Phoenix', alerts), /^- \[DANGER\] Phoenix: Extreme heat/);
+});
@@ -0,0 +1,85 @@
+// Unit tests for the weather anomaly (history comparison) tool, run against the offline fixture provider
+// Run with: node --import jiti/register --test test-weather-anomaly.js
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setWeatherProvider } from './lib/weatherProvider';
+import { FixtureWeatherProvider } from './lib/fixtureWeatherProvider';
+import { addDays, getLastForecastDate, isBeforeArchive, parseDailyEntries } from './lib/weatherTools';
+import { executeWeatherAnomalyTool, getAnomalyVerdict } from './lib/weatherAnomaly';
+
+setWeatherProvider(new FixtureWeatherProvider());
+
+test('anomaly is observed minus the multi-year average', async () => {
+  const result = await executeWeatherAnomalyTool({ location: 'Mumbai', date: 'today' });
+  assert.equal(result.previousYears.length, 10);
+  assert.equal(result.previousYears[0].year, parseInt(result.date.slice(0, 4), 10) - 1);
+  assert.ok(result.previousYears.every(year => year.date.slice(5) === result.date.slice(5)));
+  assert.ok(Math.abs(result.anomaly.temperatureMean - (result.observed.temperatureMean - result.average.temperatureMean)) <= 0.11);
+  assert.equal(result.verdict, getAnomalyVerdict(result.anomaly.temperatureMean));
+  assert.ok(result.rank >= 1 && result.rank <= 11);
+});
+
+test('the number of years can be chosen and is capped', async () => {
+  const three = await executeWeatherAnomalyTool({ location: 'Tokyo', years: 3 });
+  assert.equal(three.previousYears.length, 3);
+  const capped = await executeWeatherAnomalyTool({ location: 'Tokyo', years: 100 });
+  assert.equal(capped.previousYears.length, 30);
+});
+
+test('verdict thresholds scale with units', () => {
+  assert.equal(getAnomalyVerdict(4.2), 'muchWarmer');
+  assert.equal(getAnomalyVerdict(2), 'warmer');
+  assert.equal(getAnomalyVerdict(1), 'normal');
+  assert.equal(getAnomalyVerdict(-2), 'colder');
+  assert.equal(getAnomalyVerdict(-5), 'muchColder');
+  assert.equal(getAnomalyVerdict(2, 'imperial'), 'normal');
+});
+
+test('dates beyond the forecast horizon are rejected', async () => {
+  await assert.rejects(
+    executeWeatherAnomalyTool({ location: 'Paris', date: addDays(getLastForecastDate(), 5) }),
+    /forecast horizon/
+  );
+});
+
+// Like the real archive: the last few days have no readings yet
+class LaggingArchiveProvider extends FixtureWeatherProvider {
+  async getArchive(request) {
+    const payload = await super.getArchive(request);
+    for (const [variable, values] of Object.entries(payload.daily || {})) {
+      if (variable !== 'time') {
+        payload.daily[variable] = values.map((value, index) => isBeforeArchive(payload.daily.time[index]) ? null : value);
+      }
+    }
+    return payload;
+  }
+}
+
+test('recent days are compared with real readings, not zeros', async () => {
+  const expected = await executeWeatherAnomalyTool({ location: 'Mumbai', date: 'yesterday' });
+
+  setWeatherProvider(new LaggingArchiveProvider());
+  try {
+    const result = await executeWeatherAnomalyTool({ location: 'Mumbai', date: 'yesterday' });
+    assert.deepEqual(result.observed, expected.observed);
+    assert.notEqual(result.observed.temperatureMax, 0);
+  } finally {
+    setWeatherProvider(new FixtureWeatherProvider());
+  }
+});
+
+test('days without readings are left out', () => {
+  const daily = {
+    time: ['2025-10-01', '2025-10-02'],
+    temperature_2m_max: [24.6, null],
+    temperature_2m_min: [15.2, null],
+    relative_humidity_2m_max: [80, null],
+    precipitation_sum: [0.4, null],
+    wind_speed_10m_max: [12, null],
+    uv_index_max: [5, null],
+    weather_code: [3, null]
+  };
+
+  const days = parseDailyEntries(daily, 35.68, 139.69, 'Asia/Tokyo');
+  assert.deepEqual(days.map(day => [day.date, day.temperatureMax, day.temperatureMin]), [['2025-10-01', 25, 15]]);
+});